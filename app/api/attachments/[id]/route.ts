@@ -0,0 +1,38 @@
+import { auth } from "@clerk/nextjs/server";
+import { isImageType, readAttachment } from "@/app/chat/attachment.service";
+
+// Serve an attachment to the user who uploaded it, e.g. for <img> tags in
+// the chat. Images are shown inline, other files are downloaded.
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+  if (!userId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const { attachment, data } = await readAttachment(userId, id);
+    const disposition = isImageType(attachment.content_type)
+      ? "inline"
+      : "attachment";
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": attachment.content_type,
+        "Content-Length": String(data.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(
+          attachment.filename
+        )}`,
+        // Never let the browser reinterpret an upload, e.g. as HTML
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading attachment:", error);
+    return new Response("Not found", { status: 404 });
+  }
+}
@@ -0,0 +1,436 @@
+import { inflateSync, constants as zlibConstants } from "zlib";
+import {
+  devAttachment,
+  devMessage,
+  withUserContext,
+  type Transaction,
+} from "../../server/db";
+import { eq, and, inArray, isNull, lt } from "drizzle-orm";
+import { getDefaultStorage, getStorage } from "./storage.registry";
+import type { ChatContentPart } from "./llm.service";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Longest document text sent to the model per attachment
+const MAX_EXTRACTED_TEXT_CHARS = 50_000;
+// Uploads that weren't sent with a message within this time are deleted
+const PENDING_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Images are sent to vision models as they are
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+// Documents are sent as their extracted text
+const DOCUMENT_TYPES = [
+  "application/pdf",
+  "application/json",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+type AttachmentRow = typeof devAttachment.$inferSelect;
+
+// What the client sees of an attachment
+export type AttachmentInfo = Pick<
+  AttachmentRow,
+  "id" | "filename" | "content_type" | "size_bytes"
+>;
+
+// Where an attachment's content is stored
+export type StoredFile = Pick<AttachmentRow, "storage" | "storage_key">;
+
+export function isImageType(contentType: string): boolean {
+  return IMAGE_TYPES.includes(contentType);
+}
+
+/**
+ * Decode a PDF literal string, e.g. "(Hello\\) world)"
+ */
+function unescapePdfString(value: string): string {
+  return value.replace(
+    /\\([nrtbf()\\]|[0-7]{1,3})/g,
+    (_, escaped: string) =>
+      ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }[escaped] ??
+      (/^[0-7]+$/.test(escaped)
+        ? String.fromCharCode(parseInt(escaped, 8))
+        : escaped))
+  );
+}
+
+/**
+ * Best-effort text extraction from a PDF: the strings shown by the text
+ * operators of its uncompressed and Flate-compressed content streams. Fonts
+ * with custom encodings (common for CJK text) come out empty.
+ */
+function extractPdfText(data: Buffer): string {
+  const pdf = data.toString("latin1");
+  const lines: string[] = [];
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n([\s\S]*?)endstream/g;
+  const textPattern =
+    /\[((?:\\[\s\S]|[^\]\\])*)\]\s*TJ|\(((?:\\[\s\S]|[^)\\])*)\)\s*(?:Tj|'|")|\b(T\*|Td|TD|ET)\b/g;
+
+  for (const [, dictionary, body] of pdf.matchAll(streamPattern)) {
+    let content: Buffer = Buffer.from(body, "latin1");
+    if (dictionary.includes("/FlateDecode")) {
+      try {
+        content = inflateSync(content, {
+          finishFlush: zlibConstants.Z_SYNC_FLUSH,
+        });
+      } catch {
+        continue;
+      }
+    } else if (dictionary.includes("/Filter")) {
+      // Images and other encodings don't hold text
+      continue;
+    }
+
+    let line = "";
+    for (const match of content.toString("latin1").matchAll(textPattern)) {
+      const [, array, literal, lineBreak] = match;
+      if (lineBreak) {
+        if (line.trim()) lines.push(line.trim());
+        line = "";
+      } else if (literal !== undefined) {
+        line += unescapePdfString(literal);
+      } else if (array !== undefined) {
+        // Large negative offsets between strings are word gaps
+        for (const [, part, offset] of array.matchAll(
+          /\(((?:\\[\s\S]|[^)\\])*)\)|(-?\d+(?:\.\d+)?)/g
+        )) {
+          if (part !== undefined) line += unescapePdfString(part);
+          else if (Number(offset) < -200) line += " ";
+        }
+      }
+    }
+    if (line.trim()) lines.push(line.trim());
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Text of a document attachment, or null for images
+ */
+function extractText(contentType: string, data: Buffer): string | null {
+  if (!DOCUMENT_TYPES.includes(contentType)) {
+    return null;
+  }
+  const text =
+    contentType === "application/pdf"
+      ? extractPdfText(data)
+      : data.toString("utf8");
+  // Postgres text can't hold NUL characters
+  return text.replace(/\u0000/g, "");
+}
+
+/**
+ * Store an uploaded file and extract its text
+ * The attachment isn't part of a message until it's sent with one.
+ */
+export async function uploadAttachment(
+  userId: string,
+  file: { filename: string; contentType: string; data: Buffer }
+): Promise<AttachmentInfo> {
+  const contentType = file.contentType.split(";")[0].trim().toLowerCase();
+  if (!isImageType(contentType) && !DOCUMENT_TYPES.includes(contentType)) {
+    throw new Error(`Unsupported file type ${contentType}`);
+  }
+  if (file.data.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(
+      `File is too large, the limit is ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+    );
+  }
+
+  const id = crypto.randomUUID();
+  const storage = getDefaultStorage();
+  const storageKey = `${userId}/${id}`;
+  await storage.put(storageKey, file.data);
+
+  // Clean up the user's earlier uploads that were never sent, in the background
+  void deleteStalePendingAttachments(userId);
+
+  return withUserContext(userId, async (tx) => {
+    const [attachment] = await tx
+      .insert(devAttachment)
+      .values({
+        id,
+        user_id: userId,
+        filename: file.filename,
+        content_type: contentType,
+        size_bytes: file.data.length,
+        storage: storage.id,
+        storage_key: storageKey,
+        extracted_text: extractText(contentType, file.data),
+      })
+      .returning();
+
+    return {
+      id: attachment.id,
+      filename: attachment.filename,
+      content_type: attachment.content_type,
+      size_bytes: attachment.size_bytes,
+    };
+  });
+}
+
+/**
+ * Delete the user's uploads that weren't sent with a message within
+ * PENDING_ATTACHMENT_TTL_MS, along with their files
+ */
+async function deleteStalePendingAttachments(userId: string): Promise<void> {
+  try {
+    const deleted = await withUserContext(userId, async (tx) => {
+      return tx
+        .delete(devAttachment)
+        .where(
+          and(
+            eq(devAttachment.user_id, userId),
+            isNull(devAttachment.message_id),
+            lt(
+              devAttachment.created_at,
+              new Date(Date.now() - PENDING_ATTACHMENT_TTL_MS)
+            )
+          )
+        )
+        .returning({
+          storage: devAttachment.storage,
+          storage_key: devAttachment.storage_key,
+        });
+    });
+
+    await deleteUnreferencedFiles(userId, deleted);
+  } catch (error) {
+    console.error("Failed to delete stale uploads:", error);
+  }
+}
+
+/**
+ * Attach uploaded files to a message, within the transaction creating it
+ * Files already sent with another message (e.g. the original of an edited
+ * message) are attached as copies sharing the stored content.
+ * @throws if an attachment doesn't exist or belongs to another user
+ */
+export async function linkAttachments(
+  tx: Transaction,
+  userId: string,
+  messageId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) return;
+
+  const attachments = await tx
+    .select()
+    .from(devAttachment)
+    .where(
+      and(
+        inArray(devAttachment.id, attachmentIds),
+        eq(devAttachment.user_id, userId)
+      )
+    );
+
+  const missingId = attachmentIds.find(
+    (id) => !attachments.some((attachment) => attachment.id === id)
+  );
+  if (missingId) {
+    throw new Error(`Attachment with ID ${missingId} not found`);
+  }
+
+  const pendingIds = attachments
+    .filter((attachment) => !attachment.message_id)
+    .map((attachment) => attachment.id);
+  if (pendingIds.length > 0) {
+    await tx
+      .update(devAttachment)
+      .set({ message_id: messageId })
+      .where(
+        and(
+          inArray(devAttachment.id, pendingIds),
+          isNull(devAttachment.message_id)
+        )
+      );
+  }
+
+  const sentAttachments = attachments.filter(
+    (attachment) => attachment.message_id
+  );
+  if (sentAttachments.length > 0) {
+    await tx.insert(devAttachment).values(
+      sentAttachments.map(({ id, created_at, ...attachment }) => ({
+        ...attachment,
+        message_id: messageId,
+      }))
+    );
+  }
+}
+
+/**
+ * Load the attachments of messages, grouped by message ID
+ */
+export async function loadMessageAttachments(
+  tx: Transaction,
+  userId: string,
+  messageIds: string[]
+): Promise<Map<string, AttachmentRow[]>> {
+  const byMessage = new Map<string, AttachmentRow[]>();
+  if (messageIds.length === 0) return byMessage;
+
+  const attachments = await tx
+    .select()
+    .from(devAttachment)
+    .where(
+      and(
+        inArray(devAttachment.message_id, messageIds),
+        eq(devAttachment.user_id, userId)
+      )
+    )
+    .orderBy(devAttachment.created_at);
+
+  attachments.forEach((attachment) => {
+    const list = byMessage.get(attachment.message_id!) ?? [];
+    list.push(attachment);
+    byMessage.set(attachment.message_id!, list);
+  });
+  return byMessage;
+}
+
+/**
+ * Read an attachment's content for download
+ * @throws if the attachment doesn't exist or belongs to another user
+ */
+export async function readAttachment(
+  userId: string,
+  attachmentId: string
+): Promise<{ attachment: AttachmentRow; data: Buffer }> {
+  const [attachment] = await withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devAttachment)
+      .where(
+        and(
+          eq(devAttachment.id, attachmentId),
+          eq(devAttachment.user_id, userId)
+        )
+      )
+      .limit(1);
+  });
+
+  if (!attachment) {
+    throw new Error(`Attachment with ID ${attachmentId} not found`);
+  }
+
+  const data = await getStorage(attachment.storage).get(attachment.storage_key);
+  return { attachment, data };
+}
+
+/**
+ * Build the content parts sent to the model for a message's attachments
+ * Images become image parts for vision models and a note otherwise;
+ * documents become their extracted text.
+ */
+export async function toContentParts(
+  attachments: AttachmentRow[],
+  supportsVision: boolean
+): Promise<ChatContentPart[]> {
+  return Promise.all(
+    attachments.map(async (attachment): Promise<ChatContentPart> => {
+      if (isImageType(attachment.content_type)) {
+        if (!supportsVision) {
+          return {
+            type: "text",
+            text: `[Image "${attachment.filename}" attached, but this model can't view images]`,
+          };
+        }
+        const data = await getStorage(attachment.storage).get(
+          attachment.storage_key
+        );
+        return {
+          type: "image_url",
+          image_url: {
+            url: `data:${attachment.content_type};base64,${data.toString(
+              "base64"
+            )}`,
+          },
+        };
+      }
+
+      const text = attachment.extracted_text?.trim();
+      return {
+        type: "text",
+        text: text
+          ? `Attached file "${attachment.filename}":\n${text.slice(
+              0,
+              MAX_EXTRACTED_TEXT_CHARS
+            )}`
+          : `[File "${attachment.filename}" attached, but no text could be extracted from it]`,
+      };
+    })
+  );
+}
+
+/**
+ * Files of the attachments in sessions
+ * Deleting messages removes their attachment rows by cascade, so collect the
+ * files first and pass them to deleteUnreferencedFiles after the transaction.
+ */
+export async function listSessionFiles(
+  tx: Transaction,
+  userId: string,
+  sessionIds: string[]
+): Promise<StoredFile[]> {
+  if (sessionIds.length === 0) return [];
+
+  return tx
+    .selectDistinct({
+      storage: devAttachment.storage,
+      storage_key: devAttachment.storage_key,
+    })
+    .from(devAttachment)
+    .innerJoin(devMessage, eq(devMessage.id, devAttachment.message_id))
+    .where(
+      and(
+        inArray(devMessage.session_id, sessionIds),
+        eq(devAttachment.user_id, userId)
+      )
+    );
+}
+
+/**
+ * Delete stored files that no attachment refers to anymore
+ * Copies of an attachment share its file, so the file goes with the last one.
+ * Failures are logged, as the rows are already gone.
+ */
+export async function deleteUnreferencedFiles(
+  userId: string,
+  files: StoredFile[]
+): Promise<void> {
+  if (files.length === 0) return;
+
+  const referenced = await withUserContext(userId, async (tx) => {
+    return tx
+      .selectDistinct({ storage_key: devAttachment.storage_key })
+      .from(devAttachment)
+      .where(
+        and(
+          inArray(
+            devAttachment.storage_key,
+            files.map((file) => file.storage_key)
+          ),
+          eq(devAttachment.user_id, userId)
+        )
+      );
+  });
+  const referencedKeys = new Set(referenced.map((row) => row.storage_key));
+
+  await Promise.all(
+    files
+      .filter((file) => !referencedKeys.has(file.storage_key))
+      .map(async (file) => {
+        try {
+          await getStorage(file.storage).delete(file.storage_key);
+        } catch (error) {
+          console.error(
+            `Failed to delete attachment file ${file.storage_key}:`,
+            error
+          );
+        }
+      })
+  );
+}
@@ -1,31 +1,272 @@
 import { z } from "zod";
-import { router, userProcedure } from "../../server/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  router,
+  procedure,
+  userProcedure,
+  adminProcedure,
+  rateLimit,
+  enforceRateLimitPolicy,
+  type RateLimitPolicy,
+} from "../../server/trpc";
 import { observable } from "@trpc/server/observable";
 import {
   createSession,
+  updateSessionSettings,
+  listProviders,
   listSessions,
+  listFolders,
+  getSession,
+  organizeSession,
   getMessages,
+  switchBranch,
   deleteMessage,
   deleteSession,
   addUserMessage,
-  streamUserMessageById,
+  resetContext,
 } from "./chat.service";
+import { getSessionUsage, getUserUsage, getSpendReport } from "./usage.service";
+import { searchMessages } from "./search.service";
+import { uploadAttachment, MAX_ATTACHMENT_BYTES } from "./attachment.service";
+import {
+  exportSession,
+  importSession,
+  sessionExportSchema,
+} from "./export.service";
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  getSharedSession,
+} from "./share.service";
+import {
+  listPersonas,
+  listPersonaTools,
+  createPersona,
+  updatePersona,
+  deletePersona,
+} from "./persona.service";
+import {
+  MAX_MEMORY_LENGTH,
+  listMemories,
+  updateMemory,
+  forgetMemory,
+} from "../../server/services/memory.service";
+import {
+  listToolSettings,
+  setToolEnabled,
+} from "../../server/services/tool-access.service";
+import {
+  getOrStartRun,
+  getRun,
+  getActiveRun,
+  stopRun,
+  respondToConfirmation,
+  attachSubscriber,
+  followRun,
+  type RunStreamChunk,
+} from "./run.service";
+
+// LLM settings stored on a session. Null resets a field to the default.
+const sessionSettingsSchema = {
+  provider: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  systemPrompt: z.string().nullable().optional(),
+  personaId: z.string().nullable().optional(),
+};
+
+// Generating a response, charged when streamMessage starts a new run
+const STREAM_RATE_LIMIT: RateLimitPolicy = {
+  limit: 20,
+  windowMs: 60_000,
+  quota: "tokens",
+};
+
+// A persona's prompt template and tool restriction
+const personaSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  systemPrompt: z.string().min(1).max(20_000),
+  // Null or omitted allows every tool
+  allowedTools: z.array(z.string()).nullable().optional(),
+});
 
 export const chatRouter = router({
   createSession: userProcedure
     .input(
       z.object({
         name: z.string().min(1),
+        ...sessionSettingsSchema,
+      })
+    )
+    .mutation(async (opts) => {
+      const { name, ...settings } = opts.input;
+      return createSession(opts.ctx.userId, name, settings);
+    }),
+
+  updateSessionSettings: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+        ...sessionSettingsSchema,
+      })
+    )
+    .mutation(async (opts) => {
+      const { sessionId, ...settings } = opts.input;
+      return updateSessionSettings(opts.ctx.userId, sessionId, settings);
+    }),
+
+  listProviders: userProcedure.query(() => {
+    return listProviders();
+  }),
+
+  listPersonas: userProcedure.query(async (opts) => {
+    return listPersonas(opts.ctx.userId);
+  }),
+
+  // Tools a persona can be restricted to
+  listPersonaTools: userProcedure.query(() => {
+    return listPersonaTools();
+  }),
+
+  createPersona: userProcedure.input(personaSchema).mutation(async (opts) => {
+    return createPersona(opts.ctx.userId, opts.input);
+  }),
+
+  updatePersona: userProcedure
+    .input(personaSchema.extend({ personaId: z.string() }))
+    .mutation(async (opts) => {
+      const { personaId, ...input } = opts.input;
+      return updatePersona(opts.ctx.userId, personaId, input);
+    }),
+
+  deletePersona: userProcedure
+    .input(
+      z.object({
+        personaId: z.string(),
+      })
+    )
+    .mutation(async (opts) => {
+      return deletePersona(opts.ctx.userId, opts.input.personaId);
+    }),
+
+  // What the assistant remembers about the user (remember/recall/forget tools)
+  listMemories: userProcedure.query(async (opts) => {
+    return listMemories(opts.ctx.userId);
+  }),
+
+  updateMemory: userProcedure
+    .input(
+      z.object({
+        memoryId: z.string(),
+        content: z.string().trim().min(1).max(MAX_MEMORY_LENGTH),
+      })
+    )
+    .mutation(async (opts) => {
+      return updateMemory(
+        opts.ctx.userId,
+        opts.input.memoryId,
+        opts.input.content
+      );
+    }),
+
+  deleteMemory: userProcedure
+    .input(
+      z.object({
+        memoryId: z.string(),
       })
     )
     .mutation(async (opts) => {
-      return createSession(opts.ctx.userId, opts.input.name);
+      return forgetMemory(opts.ctx.userId, opts.input.memoryId);
     }),
 
-  listSessions: userProcedure.query(async (opts) => {
-    return listSessions(opts.ctx.userId);
+  // Every tool with the user's on/off setting and any role restriction
+  listToolSettings: userProcedure.query(async (opts) => {
+    return listToolSettings(opts.ctx.userId);
   }),
 
+  setToolEnabled: userProcedure
+    .input(
+      z.object({
+        toolName: z.string(),
+        enabled: z.boolean(),
+      })
+    )
+    .mutation(async (opts) => {
+      return setToolEnabled(
+        opts.ctx.userId,
+        opts.input.toolName,
+        opts.input.enabled
+      );
+    }),
+
+  // Paginated with cursor/nextCursor, e.g. for useInfiniteQuery
+  listSessions: userProcedure
+    .input(
+      z
+        .object({
+          archived: z.boolean().optional(),
+          folder: z.string().optional(),
+          cursor: z.string().nullish(),
+          limit: z.number().int().min(1).max(100).optional(),
+        })
+        .optional()
+    )
+    .query(async (opts) => {
+      const { cursor, ...options } = opts.input ?? {};
+      return listSessions(opts.ctx.userId, {
+        ...options,
+        cursor: cursor ?? undefined,
+      });
+    }),
+
+  listFolders: userProcedure.query(async (opts) => {
+    return listFolders(opts.ctx.userId);
+  }),
+
+  getSession: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .query(async (opts) => {
+      return getSession(opts.ctx.userId, opts.input.sessionId);
+    }),
+
+  // Rename, pin, archive or move a session to a folder (null removes it
+  // from its folder)
+  organizeSession: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+        name: z.string().trim().min(1).max(200).optional(),
+        pinned: z.boolean().optional(),
+        archived: z.boolean().optional(),
+        folder: z.string().trim().max(100).nullable().optional(),
+      })
+    )
+    .mutation(async (opts) => {
+      const { sessionId, ...changes } = opts.input;
+      return organizeSession(opts.ctx.userId, sessionId, changes);
+    }),
+
+  // Search messages across all of the user's sessions
+  search: userProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        limit: z.number().int().min(1).max(50).optional(),
+        // Add embedding matches when an embedding provider is configured
+        semantic: z.boolean().optional(),
+      })
+    )
+    .query(async (opts) => {
+      const { query, ...options } = opts.input;
+      return searchMessages(opts.ctx.userId, query, options);
+    }),
+
   getMessages: userProcedure
     .input(
       z.object({
@@ -36,6 +277,18 @@ export const chatRouter = router({
       return getMessages(opts.ctx.userId, opts.input.sessionId);
     }),
 
+  // Show the branch containing a message, e.g. another version of an edited
+  // message or a regenerated response
+  switchBranch: userProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+      })
+    )
+    .mutation(async (opts) => {
+      return switchBranch(opts.ctx.userId, opts.input.messageId);
+    }),
+
   deleteMessage: userProcedure
     .input(
       z.object({
@@ -57,14 +310,25 @@ export const chatRouter = router({
     }),
 
   addUserMessage: userProcedure
+    .use(rateLimit({ limit: 20, windowMs: 60_000, quota: "tokens" }))
     .input(
-      z.object({
-        sessionId: z.string(),
-        content: z.string().min(1),
-        structuredContent: z.unknown().optional(),
-        widgetId: z.string().optional(),
-        role: z.enum(["user", "system", "assistant"]),
-      })
+      z
+        .object({
+          sessionId: z.string(),
+          content: z.string(),
+          structuredContent: z.unknown().optional(),
+          widgetId: z.string().optional(),
+          role: z.enum(["user", "system", "assistant"]),
+          // Message to reply to; defaults to the end of the active branch
+          parentId: z.string().nullable().optional(),
+          // Files uploaded with chat.uploadAttachment
+          attachmentIds: z.array(z.string()).max(10).optional(),
+        })
+        // A message with attachments may have no text
+        .refine((input) => input.content || input.attachmentIds?.length, {
+          message: "Message content is required",
+          path: ["content"],
+        })
     )
     .mutation(async (opts) => {
       return addUserMessage(
@@ -73,44 +337,256 @@ export const chatRouter = router({
         opts.input.content,
         opts.input.role,
         opts.input.structuredContent,
-        opts.input.widgetId
+        opts.input.widgetId,
+        opts.input.parentId,
+        opts.input.attachmentIds
       );
     }),
 
-  streamMessage: userProcedure
+  // File content is sent base64-encoded since the API is JSON
+  uploadAttachment: userProcedure
+    .use(rateLimit({ limit: 30, windowMs: 60_000 }))
+    .input(
+      z.object({
+        filename: z.string().trim().min(1).max(255),
+        contentType: z.string().max(100),
+        data: z
+          .string()
+          .max(Math.ceil(MAX_ATTACHMENT_BYTES / 3) * 4, "File is too large"),
+      })
+    )
+    .mutation(async (opts) => {
+      return uploadAttachment(opts.ctx.userId, {
+        filename: opts.input.filename,
+        contentType: opts.input.contentType,
+        data: Buffer.from(opts.input.data, "base64"),
+      });
+    }),
+
+  getSessionUsage: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .query(async (opts) => {
+      return getSessionUsage(opts.ctx.userId, opts.input.sessionId);
+    }),
+
+  getUsage: userProcedure.query(async (opts) => {
+    return getUserUsage(opts.ctx.userId);
+  }),
+
+  // Spend by user and day; defaults to the last 30 days
+  spendReport: adminProcedure
+    .input(
+      z
+        .object({
+          from: z.coerce.date().optional(),
+          to: z.coerce.date().optional(),
+        })
+        .optional()
+    )
+    .query(async (opts) => {
+      const to = opts.input?.to ?? new Date();
+      const from =
+        opts.input?.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+      return getSpendReport(from, to);
+    }),
+
+  // JSON keeps every branch and can be imported again; Markdown is a
+  // readable transcript of the active branch
+  exportSession: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+        format: z.enum(["json", "markdown"]).default("json"),
+      })
+    )
+    .query(async (opts) => {
+      return exportSession(
+        opts.ctx.userId,
+        opts.input.sessionId,
+        opts.input.format
+      );
+    }),
+
+  importSession: userProcedure
+    .input(
+      z.object({
+        document: sessionExportSchema,
+      })
+    )
+    .mutation(async (opts) => {
+      return importSession(opts.ctx.userId, opts.input.document);
+    }),
+
+  createShareLink: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+        // Omit for a link that never expires
+        expiresInDays: z.number().int().min(1).max(365).optional(),
+      })
+    )
+    .mutation(async (opts) => {
+      return createShareLink(
+        opts.ctx.userId,
+        opts.input.sessionId,
+        opts.input.expiresInDays
+      );
+    }),
+
+  listShareLinks: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .query(async (opts) => {
+      return listShareLinks(opts.ctx.userId, opts.input.sessionId);
+    }),
+
+  revokeShareLink: userProcedure
+    .input(
+      z.object({
+        shareId: z.string(),
+      })
+    )
+    .mutation(async (opts) => {
+      return revokeShareLink(opts.ctx.userId, opts.input.shareId);
+    }),
+
+  // Public: the share token is the only credential
+  getSharedSession: procedure
+    .input(
+      z.object({
+        token: z.string().min(1).max(100),
+      })
+    )
+    .query(async (opts) => {
+      const shared = await getSharedSession(opts.input.token);
+
+      if (!shared) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This share link doesn't exist, has expired or was revoked",
+        });
+      }
+
+      return shared;
+    }),
+
+  resetContext: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .mutation(async (opts) => {
+      return resetContext(opts.ctx.userId, opts.input.sessionId);
+    }),
+
+  getActiveRun: userProcedure
+    .input(
+      z.object({
+        sessionId: z.string(),
+      })
+    )
+    .query(async (opts) => {
+      const run = getActiveRun(opts.ctx.userId, opts.input.sessionId);
+      return run ? { runId: run.id, messageId: run.messageId } : null;
+    }),
+
+  stopRun: userProcedure
     .input(
       z.object({
         messageId: z.string(),
       })
     )
+    .mutation(async (opts) => {
+      return { stopped: stopRun(opts.ctx.userId, opts.input.messageId) };
+    }),
+
+  // Approve or deny a tool call the run is waiting on; the decision is the
+  // tool result the model gets (a denial) or lets the call run
+  respondToConfirmation: userProcedure
+    .input(
+      z.object({
+        runId: z.string(),
+        toolCallId: z.string(),
+        approved: z.boolean(),
+      })
+    )
+    .mutation(async (opts) => {
+      const { runId, toolCallId, approved } = opts.input;
+      if (
+        !respondToConfirmation(opts.ctx.userId, runId, toolCallId, approved)
+      ) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Tool call ${toolCallId} isn't waiting for confirmation`,
+        });
+      }
+      return { success: true };
+    }),
+
+  streamMessage: userProcedure
+    .input(
+      z
+        .object({
+          // Start (or attach to) the run answering this user message
+          messageId: z.string().optional(),
+          // Reconnect to an existing run, replaying chunks from the cursor
+          resumeFromRunId: z.string().optional(),
+          cursor: z.number().int().min(0).optional(),
+        })
+        .refine((input) => input.messageId || input.resumeFromRunId, {
+          message: "Either messageId or resumeFromRunId is required",
+        })
+    )
     .subscription(async (opts) => {
-      return observable<{
-        type: "content" | "tool_call" | "tool_result" | "done" | "metadata";
-        content?: string;
-        toolCalls?: Array<{
-          id: string;
-          name: string;
-          arguments: string;
-        }>;
-        metadata?: {
-          _meta?: Record<string, unknown>;
-          structuredContent?: Record<string, unknown>;
-          widgetId?: string;
-        };
-        assistantMessageId?: string;
-      }>((emit) => {
-        // Convert async generator to observable
-        const stream = streamUserMessageById(
-          opts.ctx.userId,
-          opts.input.messageId
-        );
-
-        // Process the stream
+      const { messageId, resumeFromRunId, cursor } = opts.input;
+      // Only starting a run counts against the rate limit and quota;
+      // reconnecting to one is free
+      const run = resumeFromRunId
+        ? getRun(opts.ctx.userId, resumeFromRunId)
+        : await getOrStartRun(opts.ctx.userId, messageId!, () =>
+            enforceRateLimitPolicy(
+              opts.ctx.userId,
+              opts.path,
+              STREAM_RATE_LIMIT
+            )
+          );
+
+      if (!run) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Run with ID ${resumeFromRunId} not found`,
+        });
+      }
+
+      return observable<RunStreamChunk>((emit) => {
+        // The run keeps generating while nobody is subscribed, so a reloaded
+        // page can pick it up again; the stop button calls stopRun instead
+        const detach = attachSubscriber(run);
+        const unsubscribed = new AbortController();
+
+        // Replay buffered chunks, then follow the live run
         (async () => {
           try {
-            for await (const chunk of stream) {
-              emit.next(chunk);
+            for await (const chunk of followRun(
+              run,
+              cursor ?? 0,
+              unsubscribed.signal
+            )) {
+              emit.next({
+                ...chunk.chunk,
+                runId: run.id,
+                cursor: chunk.cursor,
+              });
             }
+            emit.complete();
           } catch (error) {
             emit.error(
               error instanceof Error
@@ -122,7 +598,8 @@ export const chatRouter = router({
 
         // Cleanup function
         return () => {
-          // Stream cleanup is handled automatically when the generator completes
+          unsubscribed.abort();
+          detach();
         };
       });
     }),
@@ -1,25 +1,268 @@
-import { db, devSession, devMessage, withUserContext } from "../../server/db";
-import { eq, and, desc, inArray } from "drizzle-orm";
 import {
+  db,
+  devSession,
+  devMessage,
+  devPersona,
+  withUserContext,
+  type Transaction,
+  type StoredToolCall,
+  type StoredMessageError,
+  type StoredUsage,
+} from "../../server/db";
+import {
+  eq,
+  and,
+  desc,
+  inArray,
+  isNull,
+  isNotNull,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  describeLLMError,
   getChatCompletion,
   streamChatCompletion,
-  type ChatMessage,
+  type AgentLoopOptions,
+  type LLMOptions,
   type StreamChunk,
 } from "./llm.service";
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  isProviderConfigured,
+  providerRegistry,
+} from "./providers.registry";
+import { buildContext, type AttachmentParts } from "./context.service";
+import { recordUsage, toStoredUsage } from "./usage.service";
+import { indexMessageEmbedding } from "./search.service";
+import {
+  deleteUnreferencedFiles,
+  linkAttachments,
+  listSessionFiles,
+  loadMessageAttachments,
+  toContentParts,
+  type AttachmentInfo,
+} from "./attachment.service";
+import { resolvePersonaPrompt } from "./persona.service";
+import { getMemoryPrompt } from "../../server/services/memory.service";
+
+// Stream chunks forwarded to the client, plus the saved assistant message ID
+export type ChatStreamChunk = StreamChunk & { assistantMessageId?: string };
+
+type MessageRow = typeof devMessage.$inferSelect;
+
+// A message on the active branch, with the IDs of the alternatives at its
+// position (messages sharing its parent, oldest first, including itself)
+// and its attached files
+export type BranchMessage = MessageRow & {
+  siblingIds: string[];
+  attachments: AttachmentInfo[];
+};
+
+export interface SessionSettings {
+  provider?: string | null;
+  model?: string | null;
+  temperature?: number | null;
+  systemPrompt?: string | null;
+  // Persona from the user's library, see persona.service.ts
+  personaId?: string | null;
+}
+
+// How a session is organized in the sidebar
+export interface SessionOrganization {
+  name?: string;
+  pinned?: boolean;
+  // Archiving also unpins the session
+  archived?: boolean;
+  folder?: string | null;
+}
+
+export interface ListSessionsOptions {
+  // List archived sessions instead of the others
+  archived?: boolean;
+  // Only sessions in this folder
+  folder?: string;
+  // nextCursor of the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Convert session settings to dev_session columns, validating the provider
+ * Only keys present in settings are returned, so this works for partial updates
+ */
+function toSessionColumns(settings: SessionSettings) {
+  if (settings.provider) {
+    getProvider(settings.provider);
+  }
+
+  return {
+    ...(settings.provider !== undefined && { provider: settings.provider }),
+    ...(settings.model !== undefined && { model: settings.model }),
+    ...(settings.temperature !== undefined && {
+      temperature: settings.temperature,
+    }),
+    ...(settings.systemPrompt !== undefined && {
+      system_prompt: settings.systemPrompt,
+    }),
+    ...(settings.personaId !== undefined && {
+      persona_id: settings.personaId,
+    }),
+  };
+}
+
+/**
+ * Check that a session's new persona belongs to the user
+ * @throws if the persona doesn't exist or belongs to another user
+ */
+async function assertPersonaExists(
+  tx: Transaction,
+  userId: string,
+  personaId: string | null | undefined
+): Promise<void> {
+  if (!personaId) return;
+
+  const [persona] = await tx
+    .select({ id: devPersona.id })
+    .from(devPersona)
+    .where(and(eq(devPersona.id, personaId), eq(devPersona.user_id, userId)))
+    .limit(1);
+
+  if (!persona) {
+    throw new Error(`Persona with ID ${personaId} not found`);
+  }
+}
+
+/**
+ * Build LLM options from a session's stored settings
+ */
+function getSessionLLMOptions(
+  session: typeof devSession.$inferSelect
+): LLMOptions {
+  return {
+    provider: session.provider ?? undefined,
+    model: session.model ?? undefined,
+    temperature: session.temperature ?? undefined,
+  };
+}
+
+/**
+ * Load every message of a session, on all branches, oldest first
+ */
+async function loadSessionMessages(
+  tx: Transaction,
+  userId: string,
+  sessionId: string
+): Promise<MessageRow[]> {
+  return tx
+    .select()
+    .from(devMessage)
+    .where(
+      and(eq(devMessage.session_id, sessionId), eq(devMessage.user_id, userId))
+    )
+    .orderBy(devMessage.created_at, devMessage.id);
+}
+
+/**
+ * Follow parent pointers from a message up to the first message
+ * Falls back to the latest message if the leaf doesn't exist
+ * @returns the branch from the first message down to the leaf
+ */
+export function getBranch(
+  messages: MessageRow[],
+  leafId: string | null
+): MessageRow[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: MessageRow[] = [];
+
+  let current: MessageRow | undefined =
+    (leafId && byId.get(leafId)) || messages[messages.length - 1];
+  while (current) {
+    branch.unshift(current);
+    current = (current.parent_id && byId.get(current.parent_id)) || undefined;
+  }
+
+  return branch;
+}
+
+/**
+ * Find the end of the newest branch below a message by following the newest
+ * child at each level. A null or unknown messageId starts from the first messages.
+ */
+function findLatestLeaf(
+  messages: MessageRow[],
+  messageId: string | null
+): string | null {
+  // Messages are oldest first, so the last child set for a parent is the newest
+  const newestChild = new Map<string | null, MessageRow>();
+  messages.forEach((message) => newestChild.set(message.parent_id, message));
+
+  let leafId = messages.some((message) => message.id === messageId)
+    ? messageId
+    : null;
+  for (
+    let child = newestChild.get(leafId);
+    child;
+    child = newestChild.get(child.id)
+  ) {
+    leafId = child.id;
+  }
+
+  return leafId;
+}
+
+/**
+ * Make a message the end of the session's active branch and bump updated_at
+ */
+async function setActiveMessage(
+  tx: Transaction,
+  sessionId: string,
+  messageId: string | null
+): Promise<void> {
+  await tx
+    .update(devSession)
+    .set({ active_message_id: messageId, updated_at: new Date() })
+    .where(eq(devSession.id, sessionId));
+}
+
+/**
+ * List the registered LLM providers and whether their API key is configured
+ */
+export function listProviders() {
+  return {
+    defaultProviderId: DEFAULT_PROVIDER_ID,
+    providers: providerRegistry.map((provider) => ({
+      id: provider.id,
+      label: provider.label,
+      defaultModel: provider.defaultModel,
+      models: provider.models,
+      supportsTools: provider.supportsTools,
+      supportsVision: provider.supportsVision,
+      isConfigured: isProviderConfigured(provider),
+    })),
+  };
+}
 
 /**
  * Create a new chat session for a user
  */
 export async function createSession(
   userId: string,
-  name: string
+  name: string,
+  settings: SessionSettings = {}
 ): Promise<typeof devSession.$inferSelect> {
+  const columns = toSessionColumns(settings);
+
   return withUserContext(userId, async (tx) => {
+    await assertPersonaExists(tx, userId, settings.personaId);
+
     const [session] = await tx
       .insert(devSession)
       .values({
         name,
         user_id: userId,
+        ...columns,
       })
       .returning();
 
@@ -28,29 +271,199 @@ export async function createSession(
 }
 
 /**
- * List all sessions for a user, ordered by most recently updated
+ * Update the LLM settings (provider, model, temperature, system prompt,
+ * persona) of a session
+ */
+export async function updateSessionSettings(
+  userId: string,
+  sessionId: string,
+  settings: SessionSettings
+): Promise<typeof devSession.$inferSelect> {
+  const columns = toSessionColumns(settings);
+
+  return withUserContext(userId, async (tx) => {
+    await assertPersonaExists(tx, userId, settings.personaId);
+
+    const [session] = await tx
+      .update(devSession)
+      .set({ ...columns, updated_at: new Date() })
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .returning();
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    return session;
+  });
+}
+
+/**
+ * Rename, pin, archive or move a session to a folder
+ * Only the fields present in changes are updated
+ */
+export async function organizeSession(
+  userId: string,
+  sessionId: string,
+  changes: SessionOrganization
+): Promise<typeof devSession.$inferSelect> {
+  const now = new Date();
+  const columns = {
+    ...(changes.name !== undefined && { name: changes.name }),
+    ...(changes.pinned !== undefined && {
+      pinned_at: changes.pinned ? now : null,
+    }),
+    ...(changes.archived !== undefined && {
+      archived_at: changes.archived ? now : null,
+    }),
+    ...(changes.archived && { pinned_at: null }),
+    ...(changes.folder !== undefined && { folder: changes.folder || null }),
+  };
+
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .update(devSession)
+      .set(columns)
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .returning();
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    return session;
+  });
+}
+
+/**
+ * Get a single session of a user
+ */
+export async function getSession(
+  userId: string,
+  sessionId: string
+): Promise<typeof devSession.$inferSelect> {
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(devSession)
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .limit(1);
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    return session;
+  });
+}
+
+// Sessions are paged by updated_at, truncated to what a JS Date can hold so
+// the cursor compares equal to the row it was made from
+const sessionUpdatedAt = sql`date_trunc('milliseconds', ${devSession.updated_at})`;
+
+function toSessionCursor(session: typeof devSession.$inferSelect): string {
+  return `${session.updated_at.toISOString()}|${session.id}`;
+}
+
+function parseSessionCursor(cursor: string): SQL {
+  const [updatedAt, id] = cursor.split("|");
+  if (!id || Number.isNaN(Date.parse(updatedAt))) {
+    throw new Error(`Invalid cursor ${cursor}`);
+  }
+  return sql`(${sessionUpdatedAt}, ${devSession.id}) < (${updatedAt}::timestamp, ${id})`;
+}
+
+/**
+ * List a user's sessions, most recently updated first, a page at a time
+ * Pinned sessions come first, all of them on the first page. Archived
+ * sessions are only listed with options.archived.
+ * @returns the page and the cursor of the next one, or null on the last page
  */
 export async function listSessions(
-  userId: string
-): Promise<Array<typeof devSession.$inferSelect>> {
+  userId: string,
+  options: ListSessionsOptions = {}
+): Promise<{
+  sessions: Array<typeof devSession.$inferSelect>;
+  nextCursor: string | null;
+}> {
+  const limit = options.limit ?? 50;
+  const filters = [
+    eq(devSession.user_id, userId),
+    options.archived
+      ? isNotNull(devSession.archived_at)
+      : isNull(devSession.archived_at),
+    options.folder !== undefined
+      ? eq(devSession.folder, options.folder)
+      : undefined,
+  ];
+
   return withUserContext(userId, async (tx) => {
-    const sessions = await tx
+    const pinned =
+      options.archived || options.cursor
+        ? []
+        : await tx
+            .select()
+            .from(devSession)
+            .where(and(...filters, isNotNull(devSession.pinned_at)))
+            .orderBy(desc(devSession.pinned_at));
+
+    // Fetch one extra row to know whether there is a next page
+    const rows = await tx
       .select()
       .from(devSession)
-      .where(eq(devSession.user_id, userId))
-      .orderBy(desc(devSession.updated_at));
+      .where(
+        and(
+          ...filters,
+          options.archived ? undefined : isNull(devSession.pinned_at),
+          options.cursor ? parseSessionCursor(options.cursor) : undefined
+        )
+      )
+      .orderBy(desc(sessionUpdatedAt), desc(devSession.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    return {
+      sessions: [...pinned, ...page],
+      nextCursor:
+        rows.length > limit ? toSessionCursor(page[page.length - 1]) : null,
+    };
+  });
+}
+
+/**
+ * List the folders a user has put sessions in, with their session counts
+ */
+export async function listFolders(
+  userId: string
+): Promise<Array<{ name: string; count: number }>> {
+  return withUserContext(userId, async (tx) => {
+    const rows = await tx
+      .select({
+        name: devSession.folder,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(devSession)
+      .where(
+        and(
+          eq(devSession.user_id, userId),
+          isNotNull(devSession.folder),
+          isNull(devSession.archived_at)
+        )
+      )
+      .groupBy(devSession.folder)
+      .orderBy(devSession.folder);
 
-    return sessions;
+    return rows.map((row) => ({ name: row.name!, count: row.count }));
   });
 }
 
 /**
- * Get all messages for a specific session
+ * Get the messages on a session's active branch, oldest first
  */
 export async function getMessages(
   userId: string,
   sessionId: string
-): Promise<Array<typeof devMessage.$inferSelect>> {
+): Promise<BranchMessage[]> {
   return withUserContext(userId, async (tx) => {
     // First verify the session belongs to the user
     const [session] = await tx
@@ -63,49 +476,163 @@ export async function getMessages(
       throw new Error(`Session with ID ${sessionId} not found`);
     }
 
-    // Get all messages for this session
-    const messages = await tx
+    const messages = await loadSessionMessages(tx, userId, sessionId);
+
+    const siblingIds = new Map<string | null, string[]>();
+    messages.forEach((message) => {
+      const siblings = siblingIds.get(message.parent_id) ?? [];
+      siblings.push(message.id);
+      siblingIds.set(message.parent_id, siblings);
+    });
+
+    const branch = getBranch(messages, session.active_message_id);
+    const attachments = await loadMessageAttachments(
+      tx,
+      userId,
+      branch.map((message) => message.id)
+    );
+
+    return branch.map((message) => ({
+      ...message,
+      siblingIds: siblingIds.get(message.parent_id) ?? [message.id],
+      attachments: (attachments.get(message.id) ?? []).map(
+        ({ id, filename, content_type, size_bytes }) => ({
+          id,
+          filename,
+          content_type,
+          size_bytes,
+        })
+      ),
+    }));
+  });
+}
+
+/**
+ * Switch the session to the branch containing a message, continuing along
+ * the newest replies below it
+ */
+export async function switchBranch(
+  userId: string,
+  messageId: string
+): Promise<{ activeMessageId: string | null }> {
+  return withUserContext(userId, async (tx) => {
+    const [message] = await tx
       .select()
       .from(devMessage)
-      .where(
-        and(
-          eq(devMessage.session_id, sessionId),
-          eq(devMessage.user_id, userId)
-        )
-      )
-      .orderBy(devMessage.created_at);
+      .where(and(eq(devMessage.id, messageId), eq(devMessage.user_id, userId)))
+      .limit(1);
+
+    if (!message) {
+      throw new Error(`Message with ID ${messageId} not found`);
+    }
+
+    const messages = await loadSessionMessages(tx, userId, message.session_id);
+    const activeMessageId = findLatestLeaf(messages, messageId);
+    await setActiveMessage(tx, message.session_id, activeMessageId);
+
+    return { activeMessageId };
+  });
+}
+
+/**
+ * Get the session a message belongs to
+ */
+export async function getMessageSessionId(
+  userId: string,
+  messageId: string
+): Promise<string> {
+  return withUserContext(userId, async (tx) => {
+    const [message] = await tx
+      .select({ session_id: devMessage.session_id })
+      .from(devMessage)
+      .where(and(eq(devMessage.id, messageId), eq(devMessage.user_id, userId)))
+      .limit(1);
 
-    return messages;
+    if (!message) {
+      throw new Error(`Message with ID ${messageId} not found`);
+    }
+
+    return message.session_id;
   });
 }
 
 /**
- * Delete message(s) by ID(s)
+ * Delete message(s) by ID(s), along with the replies below them
  */
 export async function deleteMessage(
   userId: string,
   messageIds: string[]
 ): Promise<{ success: boolean }> {
-  return withUserContext(userId, async (tx) => {
+  const files = await withUserContext(userId, async (tx) => {
+    // The deleted replies can be anywhere in the sessions, so collect the
+    // files of their whole sessions
+    const sessions = await tx
+      .selectDistinct({ id: devMessage.session_id })
+      .from(devMessage)
+      .where(
+        and(inArray(devMessage.id, messageIds), eq(devMessage.user_id, userId))
+      );
+    const sessionFiles = await listSessionFiles(
+      tx,
+      userId,
+      sessions.map((session) => session.id)
+    );
+
     // Verify the messages belong to the user before deleting
     const deleted = await tx
       .delete(devMessage)
       .where(
         and(inArray(devMessage.id, messageIds), eq(devMessage.user_id, userId))
+      )
+      .returning({
+        session_id: devMessage.session_id,
+        parent_id: devMessage.parent_id,
+      });
+
+    // Sessions whose active branch was deleted continue on the newest
+    // remaining branch below the deleted message's parent
+    for (const message of deleted) {
+      const [session] = await tx
+        .select()
+        .from(devSession)
+        .where(eq(devSession.id, message.session_id))
+        .limit(1);
+      const messages = await loadSessionMessages(
+        tx,
+        userId,
+        message.session_id
       );
 
-    return { success: true };
+      if (
+        session &&
+        !messages.some((m) => m.id === session.active_message_id)
+      ) {
+        await setActiveMessage(
+          tx,
+          message.session_id,
+          findLatestLeaf(messages, message.parent_id)
+        );
+      }
+    }
+
+    return sessionFiles;
   });
+
+  // Attachment rows went with the messages; remove their files now that
+  // the deletion is committed
+  await deleteUnreferencedFiles(userId, files);
+
+  return { success: true };
 }
 
 /**
- * Delete a session by ID (and all its messages)
+ * Delete a session by ID (and all its messages and attachments)
  */
 export async function deleteSession(
   userId: string,
   sessionId: string
 ): Promise<{ success: boolean }> {
-  return withUserContext(userId, async (tx) => {
+  const files = await withUserContext(userId, async (tx) => {
     // First verify the session belongs to the user
     const [session] = await tx
       .select()
@@ -117,6 +644,8 @@ export async function deleteSession(
       throw new Error(`Session with ID ${sessionId} not found`);
     }
 
+    const sessionFiles = await listSessionFiles(tx, userId, [sessionId]);
+
     // Delete all messages in the session first
     await tx
       .delete(devMessage)
@@ -132,12 +661,60 @@ export async function deleteSession(
       .delete(devSession)
       .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)));
 
-    return { success: true };
+    return sessionFiles;
+  });
+
+  await deleteUnreferencedFiles(userId, files);
+
+  return { success: true };
+}
+
+/**
+ * Reset the model's context: messages before the marker added here are no
+ * longer sent to the model, but stay in the session
+ */
+export async function resetContext(
+  userId: string,
+  sessionId: string
+): Promise<typeof devMessage.$inferSelect> {
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .update(devSession)
+      .set({
+        context_summary: null,
+        context_summary_message_id: null,
+        updated_at: new Date(),
+      })
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .returning();
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    const [marker] = await tx
+      .insert(devMessage)
+      .values({
+        content: "",
+        role: "context_reset",
+        parent_id: session.active_message_id,
+        session_id: sessionId,
+        user_id: userId,
+      })
+      .returning();
+
+    await setActiveMessage(tx, sessionId, marker.id);
+
+    return marker;
   });
 }
 
 /**
  * Add a user message to a session and trigger an LLM response
+ * @param parentId - Message to reply to; defaults to the end of the active
+ * branch. Passing an earlier message's parent forks the conversation, e.g.
+ * when a message is edited. Null starts a new branch from the beginning.
+ * @param attachmentIds - Uploaded files to send with the message
  */
 export async function addUserMessage(
   userId: string,
@@ -145,7 +722,9 @@ export async function addUserMessage(
   content: string,
   role: "user" | "system" | "assistant",
   structuredContent?: unknown,
-  widgetId?: string
+  widgetId?: string,
+  parentId?: string | null,
+  attachmentIds: string[] = []
 ): Promise<typeof devMessage.$inferSelect> {
   console.log(
     "Adding user message:",
@@ -154,7 +733,7 @@ export async function addUserMessage(
     structuredContent,
     widgetId
   );
-  return withUserContext(userId, async (tx) => {
+  const userMessage = await withUserContext(userId, async (tx) => {
     // First verify the session belongs to the user
     const [session] = await tx
       .select()
@@ -166,6 +745,24 @@ export async function addUserMessage(
       throw new Error(`Session with ID ${sessionId} not found`);
     }
 
+    if (parentId) {
+      const [parent] = await tx
+        .select({ id: devMessage.id })
+        .from(devMessage)
+        .where(
+          and(
+            eq(devMessage.id, parentId),
+            eq(devMessage.session_id, sessionId),
+            eq(devMessage.user_id, userId)
+          )
+        )
+        .limit(1);
+
+      if (!parent) {
+        throw new Error(`Message with ID ${parentId} not found`);
+      }
+    }
+
     // Create the user message
     const [userMessage] = await tx
       .insert(devMessage)
@@ -174,32 +771,128 @@ export async function addUserMessage(
         structured_content: structuredContent ? structuredContent : null,
         widget_id: widgetId || null,
         role: role,
+        parent_id:
+          parentId === undefined ? session.active_message_id : parentId,
         session_id: sessionId,
         user_id: userId,
       })
       .returning();
 
-    // Update the session's updated_at timestamp
-    await tx
-      .update(devSession)
-      .set({ updated_at: new Date() })
-      .where(eq(devSession.id, sessionId));
+    await linkAttachments(tx, userId, userMessage.id, attachmentIds);
+
+    // The new message becomes the end of the active branch
+    await setActiveMessage(tx, sessionId, userMessage.id);
 
     return userMessage;
   });
+
+  // Embed for semantic search in the background
+  void indexMessageEmbedding(userId, userMessage);
+
+  return userMessage;
+}
+
+/**
+ * Save an assistant message at the end of the active branch
+ * The usage of the request that produced it is also added to the usage ledger
+ */
+async function saveAssistantMessage(
+  userId: string,
+  sessionId: string,
+  parentId: string,
+  message: {
+    content: string;
+    structuredContent: Record<string, unknown> | null;
+    widgetId: string | null;
+    status: (typeof devMessage.$inferInsert)["status"];
+    toolCalls?: StoredToolCall[];
+    error?: StoredMessageError;
+    usage?: StoredUsage;
+  }
+): Promise<typeof devMessage.$inferSelect> {
+  const assistantMessage = await withUserContext(userId, async (tx) => {
+    const [assistantMsg] = await tx
+      .insert(devMessage)
+      .values({
+        content: message.content,
+        structured_content: message.structuredContent,
+        widget_id: message.widgetId,
+        role: "assistant",
+        parent_id: parentId,
+        tool_calls: message.toolCalls ?? null,
+        status: message.status,
+        error: message.error ?? null,
+        usage: message.usage ?? null,
+        session_id: sessionId,
+        user_id: userId,
+      })
+      .returning();
+
+    await setActiveMessage(tx, sessionId, assistantMsg.id);
+
+    return assistantMsg;
+  });
+
+  if (message.usage) {
+    await recordUsage(userId, message.usage, {
+      purpose: "chat",
+      sessionId,
+      messageId: assistantMessage.id,
+    });
+  }
+
+  // Embed for semantic search in the background
+  void indexMessageEmbedding(userId, assistantMessage);
+
+  return assistantMessage;
+}
+
+/**
+ * Save the result of a tool call as a tool message at the end of the active branch
+ */
+async function saveToolMessage(
+  userId: string,
+  sessionId: string,
+  parentId: string,
+  toolResult: { toolCallId: string; name: string; content: string }
+): Promise<typeof devMessage.$inferSelect> {
+  return withUserContext(userId, async (tx) => {
+    const [toolMessage] = await tx
+      .insert(devMessage)
+      .values({
+        content: toolResult.content,
+        role: "tool",
+        parent_id: parentId,
+        tool_call_id: toolResult.toolCallId,
+        tool_name: toolResult.name,
+        session_id: sessionId,
+        user_id: userId,
+      })
+      .returning();
+
+    await setActiveMessage(tx, sessionId, toolMessage.id);
+
+    return toolMessage;
+  });
 }
 
 /**
  * Stream a chat response for a user message by message ID
  * This function reads the user message from the database, then streams the LLM response
+ * The response becomes a new branch below the user message, so regenerating
+ * keeps the earlier responses as siblings
  * @param userId - User ID
  * @param messageId - User message ID
+ * @param signal - Aborts the LLM request and tool calls; the partial response is saved as stopped
+ * @param confirmToolCall - Asks the user to approve calls to tools with requiresConfirmation
  * @yields StreamChunk objects with content and metadata
  */
 export async function* streamUserMessageById(
   userId: string,
-  messageId: string
-): AsyncGenerator<StreamChunk & { assistantMessageId?: string }> {
+  messageId: string,
+  signal?: AbortSignal,
+  confirmToolCall?: AgentLoopOptions["confirmToolCall"]
+): AsyncGenerator<ChatStreamChunk> {
   // First, read the user message and get context
   const userMessage = await withUserContext(userId, async (tx) => {
     // Get the user message
@@ -226,42 +919,86 @@ export async function* streamUserMessageById(
       throw new Error(`Session with ID ${sessionId} not found`);
     }
 
-    // Update the session's updated_at timestamp
-    await tx
-      .update(devSession)
-      .set({ updated_at: new Date() })
-      .where(eq(devSession.id, sessionId));
+    // Switch to the user message's branch while the response streams
+    await setActiveMessage(tx, sessionId, userMsg.id);
 
-    // Get all previous messages for this session to build the conversation history
-    const allPreviousMessages = await tx
-      .select()
-      .from(devMessage)
-      .where(
-        and(
-          eq(devMessage.session_id, sessionId),
-          eq(devMessage.user_id, userId)
-        )
-      )
-      .orderBy(devMessage.created_at);
+    // The conversation history is the branch leading to the user message
+    const allPreviousMessages = getBranch(
+      await loadSessionMessages(tx, userId, sessionId),
+      userMsg.id
+    );
 
+    // The history starts after the last context reset marker
     let previousMessages: (typeof devMessage.$inferSelect)[] = [];
     allPreviousMessages.forEach((msg) => {
-      if (msg.content.includes("-- IGNORE CONVERSATION BEFORE THIS LINE --")) {
-        console.log("Ignoring conversation before this line:", msg.content);
+      if (msg.role === "context_reset") {
         previousMessages = [];
+        return;
       }
       previousMessages.push(msg);
     });
 
-    return { userMsg, previousMessages, sessionId, session };
+    const attachments = await loadMessageAttachments(
+      tx,
+      userId,
+      previousMessages.map((msg) => msg.id)
+    );
+
+    // Persona the session was created from, if any
+    const [persona] = session.persona_id
+      ? await tx
+          .select()
+          .from(devPersona)
+          .where(
+            and(
+              eq(devPersona.id, session.persona_id),
+              eq(devPersona.user_id, userId)
+            )
+          )
+          .limit(1)
+      : [];
+
+    const memoryPrompt = await getMemoryPrompt(tx, userId);
+
+    return {
+      userMsg,
+      previousMessages,
+      attachments,
+      sessionId,
+      session,
+      persona,
+      memoryPrompt,
+    };
   });
 
-  // Convert messages to OpenAI chat format
-  const chatMessages: ChatMessage[] = userMessage.previousMessages.map(
-    (msg) => ({
-      role: msg.role as "user" | "assistant" | "system",
-      content: msg.content,
-    })
+  const llmOptions = getSessionLLMOptions(userMessage.session);
+
+  // Images go to vision models as image parts, documents as their text
+  const { supportsVision } = getProvider(
+    llmOptions.provider || DEFAULT_PROVIDER_ID
+  );
+  const attachmentParts: AttachmentParts = new Map();
+  for (const [id, attachments] of userMessage.attachments) {
+    attachmentParts.set(id, await toContentParts(attachments, supportsVision));
+  }
+
+  // The persona's prompt goes first, with {{date}} etc. filled in, then what
+  // is remembered about the user
+  const persona = userMessage.persona;
+  const systemPrompts = [
+    ...(persona ? [await resolvePersonaPrompt(userId, persona)] : []),
+    ...(userMessage.memoryPrompt ? [userMessage.memoryPrompt] : []),
+  ];
+
+  // Convert messages to OpenAI chat format with the system prompts,
+  // summarizing the oldest turns if the history outgrows the context budget
+  const chatMessages = await buildContext(
+    userId,
+    userMessage.session,
+    userMessage.previousMessages,
+    llmOptions,
+    attachmentParts,
+    systemPrompts
   );
 
   const sessionId = userMessage.sessionId;
@@ -273,17 +1010,65 @@ export async function* streamUserMessageById(
   let finalMeta: Record<string, unknown> | undefined;
   let finalStructuredContent: Record<string, unknown> | undefined;
   let finalWidgetId: string | undefined;
+  // Usage of the latest LLM request, saved with the message it produced
+  let usage: StoredUsage | undefined;
+  // Each saved message replies to the one saved before it
+  let parentId = messageId;
 
   try {
-    for await (const chunk of streamChatCompletion(chatMessages, userId)) {
-      // Forward the chunk
-      yield chunk;
+    for await (const chunk of streamChatCompletion(chatMessages, userId, {
+      ...llmOptions,
+      allowedTools: persona?.allowed_tools ?? undefined,
+      sessionId,
+      signal,
+      confirmToolCall,
+    })) {
+      // Forward the chunk; done is sent below once the assistant message is
+      // saved, so the client doesn't refetch before it exists
+      if (chunk.type !== "done") {
+        yield chunk;
+      }
 
       // Accumulate content
       if (chunk.type === "content" && chunk.content) {
         accumulatedContent += chunk.content;
       }
 
+      if (chunk.type === "usage") {
+        usage = toStoredUsage(chunk.usage);
+      }
+
+      // Save the assistant turn that made the tool calls; content after the
+      // tool calls belongs to the next assistant message
+      if (chunk.type === "tool_call") {
+        const toolCallMessage = await saveAssistantMessage(
+          userId,
+          sessionId,
+          parentId,
+          {
+            content: accumulatedContent,
+            structuredContent: null,
+            widgetId: null,
+            status: "complete",
+            toolCalls: chunk.toolCalls,
+            usage,
+          }
+        );
+        parentId = toolCallMessage.id;
+        accumulatedContent = "";
+        usage = undefined;
+      }
+
+      if (chunk.type === "tool_result") {
+        const toolMessage = await saveToolMessage(
+          userId,
+          sessionId,
+          parentId,
+          chunk
+        );
+        parentId = toolMessage.id;
+      }
+
       // Store metadata
       if (chunk.type === "metadata" && chunk.metadata) {
         finalMeta = chunk.metadata._meta;
@@ -294,56 +1079,49 @@ export async function* streamUserMessageById(
       // When done, save the assistant message
       if (chunk.type === "done") {
         // Save the assistant message to the database
-        const assistantMessage = await withUserContext(userId, async (tx) => {
-          const combinedStructuredContent =
-            finalStructuredContent || finalMeta
-              ? {
-                  ...(finalStructuredContent || {}),
-                  ...(finalMeta ? { _meta: finalMeta } : {}),
-                }
-              : null;
-
-          console.log("Stream saving accumulatedContent:", accumulatedContent);
-          const [assistantMsg] = await tx
-            .insert(devMessage)
-            .values({
-              content: accumulatedContent,
-              structured_content: combinedStructuredContent,
-              widget_id: finalWidgetId || null,
-              role: "assistant",
-              session_id: sessionId,
-              user_id: userId,
-            })
-            .returning();
-
-          // Update the session's updated_at timestamp
-          await tx
-            .update(devSession)
-            .set({ updated_at: new Date() })
-            .where(eq(devSession.id, sessionId));
-
-          return assistantMsg;
-        });
+        console.log("Stream saving accumulatedContent:", accumulatedContent);
+        const assistantMessage = await saveAssistantMessage(
+          userId,
+          sessionId,
+          parentId,
+          {
+            content: accumulatedContent,
+            structuredContent:
+              finalStructuredContent || finalMeta
+                ? {
+                    ...(finalStructuredContent || {}),
+                    ...(finalMeta ? { _meta: finalMeta } : {}),
+                  }
+                : null,
+            widgetId: finalWidgetId || null,
+            status: "complete",
+            usage,
+          }
+        );
 
         // Check if we now have 4 messages total and generate a session name if needed
-        // previousMessages.length includes the current user message + all previous messages
-        // After saving assistant: total = previousMessages.length + 1 (assistant)
-        // For 4 total: previousMessages.length === 3
+        // visibleMessages includes the current user message + all previous messages,
+        // leaving out tool results and the assistant turns that only made tool calls
+        // After saving assistant: total = visibleMessages.length + 1 (assistant)
+        // For 4 total: visibleMessages.length === 3
+        const visibleMessages = userMessage.previousMessages.filter(
+          (msg) => msg.role !== "tool" && !msg.tool_calls?.length
+        );
         if (
-          userMessage.previousMessages.length === 3 &&
+          visibleMessages.length === 3 &&
           userMessage.session.name === "New conversation"
         ) {
           try {
-            // Build conversation summary for name generation (previousMessages already includes current user message)
+            // Build conversation summary for name generation (visibleMessages already includes current user message)
             const conversationSummary = [
-              ...userMessage.previousMessages,
+              ...visibleMessages,
               {
                 role: "assistant" as const,
                 content: accumulatedContent,
               },
             ];
 
-            // Call OpenAI to generate a short name
+            // Use the session's provider to generate a short name
             const nameResult = await getChatCompletion(
               [
                 {
@@ -356,9 +1134,22 @@ export async function* streamUserMessageById(
                   content: msg.content,
                 })),
               ],
-              userId
+              userId,
+              // Conversation content must not be able to trigger tools
+              {
+                provider: llmOptions.provider,
+                model: llmOptions.model,
+                allowedTools: [],
+              }
             );
 
+            if (nameResult.usage) {
+              await recordUsage(userId, toStoredUsage(nameResult.usage), {
+                purpose: "session_name",
+                sessionId,
+              });
+            }
+
             const generatedName = nameResult.content.trim();
 
             // Update the session name
@@ -367,7 +1158,13 @@ export async function* streamUserMessageById(
                 await tx
                   .update(devSession)
                   .set({ name: generatedName })
-                  .where(eq(devSession.id, sessionId));
+                  // Unless the user renamed it in the meantime
+                  .where(
+                    and(
+                      eq(devSession.id, sessionId),
+                      eq(devSession.name, "New conversation")
+                    )
+                  );
               });
               console.log("Generated session name:", generatedName);
             }
@@ -385,42 +1182,32 @@ export async function* streamUserMessageById(
       }
     }
   } catch (error) {
+    if (signal?.aborted) {
+      // The client stopped the stream - keep what was generated so far
+      await saveAssistantMessage(userId, sessionId, parentId, {
+        content: accumulatedContent,
+        structuredContent: null,
+        widgetId: null,
+        status: "stopped",
+        usage,
+      });
+      return;
+    }
+
     console.error("Error streaming chat response:", error);
-    // // Still try to save a partial message if we have content
-    // if (accumulatedContent) {
-    //   try {
-    //     const assistantMessage = await withUserContext(userId, async (tx) => {
-    //       const [assistantMsg] = await tx
-    //         .insert(devMessage)
-    //         .values({
-    //           content:
-    //             accumulatedContent ||
-    //             `Error: ${
-    //               error instanceof Error ? error.message : "Unknown error"
-    //             }`,
-    //           structured_content: null,
-    //           widget_id: null,
-    //           role: "assistant",
-    //           session_id: sessionId,
-    //           user_id: userId,
-    //         })
-    //         .returning();
-
-    //       await tx
-    //         .update(devSession)
-    //         .set({ updated_at: new Date() })
-    //         .where(eq(devSession.id, sessionId));
-
-    //       return assistantMsg;
-    //     });
-    //     yield {
-    //       type: "done",
-    //       assistantMessageId: assistantMessage.id,
-    //     };
-    //   } catch (saveError) {
-    //     console.error("Error saving partial message:", saveError);
-    //   }
-    // }
+    // Keep what was generated so far, so the turn isn't left without a reply
+    try {
+      await saveAssistantMessage(userId, sessionId, parentId, {
+        content: accumulatedContent,
+        structuredContent: null,
+        widgetId: null,
+        status: "error",
+        error: describeLLMError(error, llmOptions),
+        usage,
+      });
+    } catch (saveError) {
+      console.error("Error saving failed message:", saveError);
+    }
     throw error;
   }
 }
@@ -0,0 +1,390 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import { devSession, devMessage, withUserContext } from "../../server/db";
+import { eq, and } from "drizzle-orm";
+import {
+  getChatCompletion,
+  getContentText,
+  type ChatContentPart,
+  type ChatMessage,
+  type LLMOptions,
+} from "./llm.service";
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  type LLMProvider,
+} from "./providers.registry";
+import { recordUsage, toStoredUsage } from "./usage.service";
+
+// Tokens kept free for the model's reply
+const RESPONSE_RESERVE_TOKENS = 4_096;
+// Approximate characters per token for providers without a local tokenizer
+const CHARS_PER_TOKEN = 4;
+// Tokens the chat format adds per message (role, separators)
+const TOKENS_PER_MESSAGE = 4;
+// Longest message excerpt included in a summarization request
+const MAX_SUMMARY_EXCERPT_CHARS = 2_000;
+// Rough token cost of an image part; the real cost depends on its size
+const TOKENS_PER_IMAGE = 1_000;
+
+// Content parts of message attachments, by message ID
+export type AttachmentParts = Map<string, ChatContentPart[]>;
+
+type TokenCounter = (text: string) => number;
+
+// Encoders are loaded lazily, their rank tables are large
+const encoders = new Map<string, Tiktoken>();
+
+/**
+ * Get a token counter for a provider's models
+ * Uses tiktoken when the provider declares an encoding, otherwise estimates
+ */
+async function getTokenCounter(provider: LLMProvider): Promise<TokenCounter> {
+  const encoding = provider.tokenizer;
+  if (!encoding) {
+    return (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    const { default: ranks } =
+      encoding === "o200k_base"
+        ? await import("js-tiktoken/ranks/o200k_base")
+        : await import("js-tiktoken/ranks/cl100k_base");
+    encoder = new Tiktoken(ranks);
+    encoders.set(encoding, encoder);
+  }
+
+  const tiktoken = encoder;
+  return (text) => tiktoken.encode(text).length;
+}
+
+function countPartsTokens(
+  parts: ChatContentPart[],
+  countText: TokenCounter
+): number {
+  return parts.reduce(
+    (total, part) =>
+      total + (part.type === "text" ? countText(part.text) : TOKENS_PER_IMAGE),
+    0
+  );
+}
+
+function countMessageTokens(
+  message: ChatMessage,
+  countText: TokenCounter
+): number {
+  let tokens =
+    TOKENS_PER_MESSAGE +
+    (typeof message.content === "string"
+      ? countText(message.content)
+      : countPartsTokens(message.content, countText));
+  message.tool_calls?.forEach((toolCall) => {
+    tokens +=
+      countText(toolCall.function.name) +
+      countText(toolCall.function.arguments);
+  });
+  return tokens;
+}
+
+/**
+ * Count the tokens a list of messages takes up for the given provider/model
+ */
+export async function countTokens(
+  messages: ChatMessage[],
+  options: LLMOptions
+): Promise<number> {
+  const provider = getProvider(options.provider || DEFAULT_PROVIDER_ID);
+  const countText = await getTokenCounter(provider);
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(message, countText),
+    0
+  );
+}
+
+/**
+ * Tokens available for the conversation history
+ * CHAT_CONTEXT_TOKEN_BUDGET lowers the budget below the model's context window
+ */
+function getContextBudget(provider: LLMProvider): number {
+  const available = provider.contextWindow - RESPONSE_RESERVE_TOKENS;
+  const configured = Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET);
+  return configured > 0 ? Math.min(configured, available) : available;
+}
+
+/**
+ * Convert stored messages to the OpenAI chat format, replaying tool calls and
+ * their results exactly. Tool calls without a stored result (e.g. from a
+ * stopped run) get a placeholder result, and tool results without a matching
+ * call are dropped, so the history is always valid for the model.
+ * User messages with attachments get their content parts after the text.
+ */
+export function toChatMessages(
+  messages: Array<typeof devMessage.$inferSelect>,
+  attachmentParts: AttachmentParts = new Map()
+): ChatMessage[] {
+  const chatMessages: ChatMessage[] = [];
+  // Tool calls of the last assistant message still waiting for a result
+  let openToolCalls = new Map<string, string>();
+
+  const closeOpenToolCalls = () => {
+    openToolCalls.forEach((name, id) => {
+      chatMessages.push({
+        role: "tool",
+        content: JSON.stringify({ error: "Tool call did not complete" }),
+        tool_call_id: id,
+        name,
+      });
+    });
+    openToolCalls = new Map();
+  };
+
+  for (const msg of messages) {
+    if (msg.role === "tool") {
+      if (msg.tool_call_id && openToolCalls.has(msg.tool_call_id)) {
+        openToolCalls.delete(msg.tool_call_id);
+        chatMessages.push({
+          role: "tool",
+          content: msg.content,
+          tool_call_id: msg.tool_call_id,
+          name: msg.tool_name ?? undefined,
+        });
+      }
+      continue;
+    }
+
+    // Markers aren't sent, and a failed turn that produced nothing has
+    // nothing to replay
+    if (
+      msg.role === "context_reset" ||
+      (msg.status === "error" && !msg.content)
+    ) {
+      continue;
+    }
+
+    closeOpenToolCalls();
+
+    if (msg.role === "assistant" && msg.tool_calls?.length) {
+      chatMessages.push({
+        role: "assistant",
+        content: msg.content,
+        tool_calls: msg.tool_calls.map((tc) => ({
+          id: tc.id,
+          type: "function" as const,
+          function: { name: tc.name, arguments: tc.arguments },
+        })),
+      });
+      msg.tool_calls.forEach((tc) => openToolCalls.set(tc.id, tc.name));
+      continue;
+    }
+
+    const parts = attachmentParts.get(msg.id);
+    if (msg.role === "user" && parts?.length) {
+      chatMessages.push({
+        role: "user",
+        content: [
+          ...(msg.content
+            ? [{ type: "text" as const, text: msg.content }]
+            : []),
+          ...parts,
+        ],
+      });
+      continue;
+    }
+
+    chatMessages.push({ role: msg.role, content: msg.content });
+  }
+
+  closeOpenToolCalls();
+  return chatMessages;
+}
+
+/**
+ * Find where the recent history starts: the earliest turn (a user message)
+ * from which the rest of the history fits within maxTokens. The latest turn
+ * is always kept.
+ */
+function findRecentHistoryStart(
+  messages: Array<typeof devMessage.$inferSelect>,
+  attachmentParts: AttachmentParts,
+  countText: TokenCounter,
+  maxTokens: number
+): number {
+  let start = messages.length;
+  let tokens = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    tokens += TOKENS_PER_MESSAGE + countText(messages[i].content);
+    tokens += countPartsTokens(
+      attachmentParts.get(messages[i].id) ?? [],
+      countText
+    );
+    messages[i].tool_calls?.forEach((toolCall) => {
+      tokens += countText(toolCall.arguments);
+    });
+
+    if (messages[i].role === "user") {
+      if (tokens > maxTokens && start < messages.length) break;
+      start = i;
+    }
+  }
+
+  return start;
+}
+
+/**
+ * Summarize older messages, extending the previous summary if there is one
+ */
+async function summarizeMessages(
+  userId: string,
+  sessionId: string,
+  previousSummary: string | null,
+  messages: Array<typeof devMessage.$inferSelect>,
+  options: LLMOptions
+): Promise<string> {
+  const transcript = messages
+    .filter((msg) => msg.content)
+    .map((msg) => {
+      const speaker =
+        msg.role === "tool" ? `tool (${msg.tool_name ?? "unknown"})` : msg.role;
+      return `${speaker}: ${msg.content.slice(0, MAX_SUMMARY_EXCERPT_CHARS)}`;
+    })
+    .join("\n\n");
+
+  const result = await getChatCompletion(
+    [
+      {
+        role: "system",
+        content:
+          "Summarize the conversation below so the summary can replace it as context for continuing the conversation. Keep facts, decisions, names, preferences and open questions. Return only the summary, nothing else.",
+      },
+      {
+        role: "user",
+        content: previousSummary
+          ? `Summary of the conversation so far:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+          : `Conversation:\n${transcript}`,
+      },
+    ],
+    userId,
+    // Conversation content must not be able to trigger tools
+    { provider: options.provider, model: options.model, allowedTools: [] }
+  );
+
+  if (result.usage) {
+    await recordUsage(userId, toStoredUsage(result.usage), {
+      purpose: "summary",
+      sessionId,
+    });
+  }
+
+  return result.content.trim();
+}
+
+/**
+ * Build the messages sent to the model for a session: the system prompt, the
+ * summary of older messages and as much recent history as fits the context
+ * budget. Once the history outgrows the budget, the oldest turns are folded
+ * into the summary stored on the session, so it is reused on later turns.
+ * @param history - Session messages since the last context reset, oldest first
+ * @param attachmentParts - Content parts of the history's attachments
+ * @param systemPrompts - Prompts sent before the session's system prompt
+ * (persona, memories); they count against the budget but are never trimmed
+ */
+export async function buildContext(
+  userId: string,
+  session: typeof devSession.$inferSelect,
+  history: Array<typeof devMessage.$inferSelect>,
+  options: LLMOptions,
+  attachmentParts: AttachmentParts = new Map(),
+  systemPrompts: string[] = []
+): Promise<ChatMessage[]> {
+  const provider = getProvider(options.provider || DEFAULT_PROVIDER_ID);
+  const countText = await getTokenCounter(provider);
+  const budget = getContextBudget(provider);
+  const systemMessages: ChatMessage[] = systemPrompts.map((content) => ({
+    role: "system",
+    content,
+  }));
+  const systemTokens = systemMessages.reduce(
+    (total, message) => total + countMessageTokens(message, countText),
+    0
+  );
+
+  // Reuse the stored summary while the messages it covers are in the history
+  let summary: string | null = null;
+  let messages = history;
+  const summarizedIndex = history.findIndex(
+    (msg) => msg.id === session.context_summary_message_id
+  );
+  if (session.context_summary && summarizedIndex !== -1) {
+    summary = session.context_summary;
+    messages = history.slice(summarizedIndex + 1);
+  }
+
+  const assemble = (
+    summary: string | null,
+    messages: Array<typeof devMessage.$inferSelect>
+  ): ChatMessage[] => [
+    ...systemMessages,
+    ...(session.system_prompt
+      ? [{ role: "system" as const, content: session.system_prompt }]
+      : []),
+    ...(summary
+      ? [
+          {
+            role: "system" as const,
+            content: `Summary of the earlier conversation:\n${summary}`,
+          },
+        ]
+      : []),
+    ...toChatMessages(messages, attachmentParts),
+  ];
+
+  const chatMessages = assemble(summary, messages);
+  const tokens = chatMessages.reduce(
+    (total, message) => total + countMessageTokens(message, countText),
+    0
+  );
+  if (tokens <= budget) {
+    return chatMessages;
+  }
+
+  // Keep the latest turns within half of what the system prompts leave,
+  // leaving room for the summary
+  const recentStart = findRecentHistoryStart(
+    messages,
+    attachmentParts,
+    countText,
+    Math.max(budget - systemTokens, 0) / 2
+  );
+  if (recentStart === 0) {
+    return chatMessages;
+  }
+
+  const olderMessages = messages.slice(0, recentStart);
+  try {
+    summary = await summarizeMessages(
+      userId,
+      session.id,
+      summary,
+      olderMessages,
+      options
+    );
+    const summarizedThrough = olderMessages[olderMessages.length - 1].id;
+    await withUserContext(userId, async (tx) => {
+      await tx
+        .update(devSession)
+        .set({
+          context_summary: summary,
+          context_summary_message_id: summarizedThrough,
+        })
+        .where(
+          and(eq(devSession.id, session.id), eq(devSession.user_id, userId))
+        );
+    });
+  } catch (error) {
+    // Without a new summary the oldest turns are simply dropped
+    console.error("Error summarizing conversation, trimming instead:", error);
+  }
+
+  return assemble(summary, messages.slice(recentStart));
+}
@@ -0,0 +1,60 @@
+import { getProvider, getProviderClient } from "./providers.registry";
+
+export interface EmbeddingProvider {
+  id: string;
+  label: string;
+  model: string;
+  // Embed texts, returning one vector per text
+  embed: (provider: EmbeddingProvider, texts: string[]) => Promise<number[][]>;
+}
+
+/**
+ * Embed through an LLM provider's client, reusing its credentials
+ * @throws if the provider's client has no embeddings
+ */
+function embedWithLLMProvider(llmProviderId: string) {
+  return async (provider: EmbeddingProvider, texts: string[]) => {
+    const client = getProviderClient(getProvider(llmProviderId));
+    if (!client.embed) {
+      throw new Error(`LLM provider ${llmProviderId} has no embeddings`);
+    }
+    return client.embed(provider.model, texts);
+  };
+}
+
+// Local embeddings through Ollama, e.g. `ollama pull nomic-embed-text`
+const ollamaEmbeddingProvider: EmbeddingProvider = {
+  id: "ollama",
+  label: "Ollama (local)",
+  model: process.env.OLLAMA_EMBEDDING_MODEL || "nomic-embed-text",
+  embed: embedWithLLMProvider("ollama"),
+};
+
+const openaiEmbeddingProvider: EmbeddingProvider = {
+  id: "openai",
+  label: "OpenAI",
+  model: "text-embedding-3-small",
+  embed: embedWithLLMProvider("openai"),
+};
+
+// Register your embedding providers here
+export const embeddingProviderRegistry: EmbeddingProvider[] = [
+  ollamaEmbeddingProvider,
+  openaiEmbeddingProvider,
+];
+
+/**
+ * The embedding provider selected with CHAT_EMBEDDING_PROVIDER, or null when
+ * semantic search is disabled
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const providerId = process.env.CHAT_EMBEDDING_PROVIDER;
+  if (!providerId) return null;
+
+  const provider = embeddingProviderRegistry.find((p) => p.id === providerId);
+  if (!provider) {
+    console.error("Unknown CHAT_EMBEDDING_PROVIDER, ignoring it:", providerId);
+    return null;
+  }
+  return provider;
+}
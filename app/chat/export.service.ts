@@ -0,0 +1,344 @@
+import { z } from "zod";
+import {
+  devSession,
+  devMessage,
+  messageRoleEnum,
+  messageStatusEnum,
+  withUserContext,
+  type StoredToolCall,
+  type StoredMessageError,
+  type StoredUsage,
+} from "../../server/db";
+import { eq, and } from "drizzle-orm";
+import { getMessages } from "./chat.service";
+import { providerRegistry } from "./providers.registry";
+import { getPublicStructuredContent } from "@/app/mcp/tool.utils";
+
+// Bump when the document shape changes, and keep importing older versions
+export const SESSION_EXPORT_VERSION = 1;
+
+const storedToolCallSchema: z.ZodType<StoredToolCall> = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.string(),
+});
+
+const storedMessageErrorSchema: z.ZodType<StoredMessageError> = z.object({
+  message: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  httpStatus: z.number().int().nullable(),
+  retryable: z.boolean(),
+});
+
+const storedUsageSchema: z.ZodType<StoredUsage> = z.object({
+  provider: z.string(),
+  model: z.string(),
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+  costUsd: z.number().nullable(),
+});
+
+const exportedMessageSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  role: z.enum(messageRoleEnum.enumValues),
+  content: z.string(),
+  structuredContent: z.unknown().nullable(),
+  widgetId: z.string().nullable(),
+  toolCalls: z.array(storedToolCallSchema).nullable(),
+  toolCallId: z.string().nullable(),
+  toolName: z.string().nullable(),
+  status: z.enum(messageStatusEnum.enumValues),
+  error: storedMessageErrorSchema.nullable(),
+  usage: storedUsageSchema.nullable(),
+  createdAt: z.coerce.date(),
+});
+
+// A session with all its messages (every branch), as exported to JSON
+export const sessionExportSchema = z.object({
+  version: z.number().int(),
+  exportedAt: z.coerce.date(),
+  session: z.object({
+    name: z.string().min(1),
+    provider: z.string().nullable(),
+    model: z.string().nullable(),
+    temperature: z.number().nullable(),
+    systemPrompt: z.string().nullable(),
+    // End of the branch that was shown
+    activeMessageId: z.string().nullable(),
+    createdAt: z.coerce.date(),
+  }),
+  // IDs are replaced on import, so each must be unique within the document
+  messages: z.array(exportedMessageSchema).superRefine((messages, ctx) => {
+    const ids = new Set<string>();
+    messages.forEach((message, index) => {
+      if (ids.has(message.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate message ID ${message.id}`,
+          path: [index, "id"],
+        });
+      }
+      ids.add(message.id);
+    });
+  }),
+});
+
+export type SessionExport = z.infer<typeof sessionExportSchema>;
+
+export type ExportFormat = "json" | "markdown";
+
+/**
+ * Build the JSON export document of a session
+ */
+async function buildSessionExport(
+  userId: string,
+  sessionId: string
+): Promise<SessionExport> {
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .select()
+      .from(devSession)
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .limit(1);
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    const messages = await tx
+      .select()
+      .from(devMessage)
+      .where(
+        and(
+          eq(devMessage.session_id, sessionId),
+          eq(devMessage.user_id, userId)
+        )
+      )
+      .orderBy(devMessage.created_at, devMessage.id);
+
+    return {
+      version: SESSION_EXPORT_VERSION,
+      exportedAt: new Date(),
+      session: {
+        name: session.name,
+        provider: session.provider,
+        model: session.model,
+        temperature: session.temperature,
+        systemPrompt: session.system_prompt,
+        activeMessageId: session.active_message_id,
+        createdAt: session.created_at,
+      },
+      messages: messages.map((message) => ({
+        id: message.id,
+        parentId: message.parent_id,
+        role: message.role,
+        content: message.content,
+        // Exports get attached to bug reports, so no user JWT
+        structuredContent: getPublicStructuredContent(
+          message.structured_content
+        ),
+        widgetId: message.widget_id,
+        toolCalls: message.tool_calls,
+        toolCallId: message.tool_call_id,
+        toolName: message.tool_name,
+        status: message.status,
+        error: message.error,
+        usage: message.usage,
+        createdAt: message.created_at,
+      })),
+    };
+  });
+}
+
+/**
+ * Render the active branch of a session as a readable Markdown transcript
+ * Tool results are summarized rather than included in full
+ */
+async function buildSessionMarkdown(
+  userId: string,
+  sessionId: string
+): Promise<{ name: string; markdown: string }> {
+  const [session] = await withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devSession)
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .limit(1);
+  });
+
+  if (!session) {
+    throw new Error(`Session with ID ${sessionId} not found`);
+  }
+
+  const messages = await getMessages(userId, sessionId);
+  const lines = [`# ${session.name}`, ""];
+
+  lines.push(`- Exported: ${new Date().toISOString()}`);
+  if (session.provider || session.model) {
+    lines.push(
+      `- Model: ${[session.provider, session.model]
+        .filter(Boolean)
+        .join(" / ")}`
+    );
+  }
+  if (session.system_prompt) {
+    lines.push(
+      "",
+      "**System prompt:**",
+      "",
+      ...session.system_prompt.split("\n").map((line) => `> ${line}`)
+    );
+  }
+
+  for (const message of messages) {
+    const time = message.created_at.toISOString();
+
+    if (message.role === "context_reset") {
+      lines.push("", "---", "", `_Context reset at ${time}_`);
+      continue;
+    }
+    if (message.role === "tool") {
+      lines.push("", `_Tool \`${message.tool_name}\` returned a result_`);
+      continue;
+    }
+
+    const author =
+      message.role === "user"
+        ? "You"
+        : message.role === "system"
+        ? "System"
+        : "Assistant";
+    lines.push("", `## ${author} (${time})`, "");
+    if (message.content) {
+      lines.push(message.content);
+    }
+    message.tool_calls?.forEach((toolCall) => {
+      lines.push("", `_Called tool \`${toolCall.name}\`_`);
+    });
+    if (message.status === "stopped") {
+      lines.push("", "_Stopped_");
+    }
+    if (message.status === "error") {
+      lines.push("", `_Failed: ${message.error?.message ?? "unknown error"}_`);
+    }
+  }
+
+  return { name: session.name, markdown: lines.join("\n") + "\n" };
+}
+
+/**
+ * File name for an exported session, e.g. "todo-tool-bug.json"
+ */
+function toFilename(name: string, format: ExportFormat): string {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "chat";
+  return `${slug}.${format === "json" ? "json" : "md"}`;
+}
+
+/**
+ * Export a session as a versioned JSON document (every branch, for importing)
+ * or a Markdown transcript (the active branch, for reading)
+ */
+export async function exportSession(
+  userId: string,
+  sessionId: string,
+  format: ExportFormat
+): Promise<{ filename: string; mimeType: string; content: string }> {
+  if (format === "markdown") {
+    const { name, markdown } = await buildSessionMarkdown(userId, sessionId);
+    return {
+      filename: toFilename(name, format),
+      mimeType: "text/markdown",
+      content: markdown,
+    };
+  }
+
+  const document = await buildSessionExport(userId, sessionId);
+  return {
+    filename: toFilename(document.session.name, format),
+    mimeType: "application/json",
+    content: JSON.stringify(document, null, 2),
+  };
+}
+
+/**
+ * Recreate an exported session under the user, with new session and message IDs
+ * Providers this deployment doesn't have fall back to the default provider.
+ * Usage stays on the messages but isn't added to the usage ledger again.
+ */
+export async function importSession(
+  userId: string,
+  document: SessionExport
+): Promise<typeof devSession.$inferSelect> {
+  if (document.version > SESSION_EXPORT_VERSION) {
+    throw new Error(
+      `Unsupported export version ${document.version}, expected ${SESSION_EXPORT_VERSION} or older`
+    );
+  }
+
+  const isKnownProvider = providerRegistry.some(
+    (provider) => provider.id === document.session.provider
+  );
+
+  // Parents must be inserted before their children
+  const messages = [...document.messages].sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+  );
+  const newIds = new Map(
+    messages.map((message) => [message.id, crypto.randomUUID()])
+  );
+  if (newIds.size !== messages.length) {
+    throw new Error("The export has duplicate message IDs");
+  }
+
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .insert(devSession)
+      .values({
+        name: document.session.name,
+        user_id: userId,
+        provider: isKnownProvider ? document.session.provider : null,
+        model: isKnownProvider ? document.session.model : null,
+        temperature: document.session.temperature,
+        system_prompt: document.session.systemPrompt,
+        active_message_id: document.session.activeMessageId
+          ? newIds.get(document.session.activeMessageId) ?? null
+          : null,
+        created_at: document.session.createdAt,
+      })
+      .returning();
+
+    if (messages.length > 0) {
+      await tx.insert(devMessage).values(
+        messages.map((message) => ({
+          id: newIds.get(message.id)!,
+          parent_id: message.parentId
+            ? newIds.get(message.parentId) ?? null
+            : null,
+          role: message.role,
+          content: message.content,
+          structured_content: message.structuredContent ?? null,
+          widget_id: message.widgetId,
+          tool_calls: message.toolCalls,
+          tool_call_id: message.toolCallId,
+          tool_name: message.toolName,
+          status: message.status,
+          error: message.error,
+          usage: message.usage,
+          session_id: session.id,
+          user_id: userId,
+          created_at: message.createdAt,
+          updated_at: message.createdAt,
+        }))
+      );
+    }
+
+    return session;
+  });
+}
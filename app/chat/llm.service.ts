@@ -1,23 +1,38 @@
 import OpenAI from "openai";
-import { toolRegistry } from "@/app/mcp/tools.registry";
+import {
+  createToolContext,
+  getPublicWidgetMeta,
+  toolRegistry,
+  widgetMeta,
+  type ContentWidget,
+  type ToolDefinition,
+  type ToolResult,
+} from "@/app/mcp/tools.registry";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { baseURL } from "@/baseUrl";
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Initialize Grok client (xAI) - uses OpenAI-compatible API
-const grok = new OpenAI({
-  apiKey: process.env.XAI_API_KEY,
-  baseURL: "https://api.x.ai/v1",
-});
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  getProviderClient,
+  providerRegistry,
+} from "./providers.registry";
+import type { StoredMessageError } from "../../server/db";
+import {
+  filterAllowedTools,
+  getToolAccess,
+} from "../../server/services/tool-access.service";
+
+// Part of a multimodal user message, in the OpenAI chat format
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  // url is a data: URL for uploaded images
+  | { type: "image_url"; image_url: { url: string } };
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant" | "tool";
-  content: string;
+  // Text, or text and image parts for user messages with attachments
+  content: string | ChatContentPart[];
   tool_calls?: Array<{
     id: string;
     type: "function";
@@ -35,471 +50,822 @@ export interface ChatCompletionResult {
   _meta?: Record<string, unknown>;
   structuredContent?: Record<string, unknown>;
   widgetId?: string;
+  // Tokens used across all LLM requests of the completion
+  usage?: LLMUsage;
 }
 
-export interface StreamChunk {
-  type: "content" | "tool_call" | "tool_result" | "done" | "metadata";
-  content?: string;
-  toolCalls?: Array<{
-    id: string;
-    name: string;
-    arguments: string;
-  }>;
-  metadata?: {
-    _meta?: Record<string, unknown>;
-    structuredContent?: Record<string, unknown>;
-    widgetId?: string;
+// Tokens used by an LLM request, as reported by the provider
+export interface LLMUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ToolCallInfo {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ToolResultMetadata {
+  _meta?: Record<string, unknown>;
+  structuredContent?: Record<string, unknown>;
+  widgetId?: string;
+}
+
+// Events emitted by the agent loop
+export type StreamChunk =
+  | { type: "content"; content: string }
+  | { type: "tool_call"; toolCalls: ToolCallInfo[] }
+  | {
+      type: "tool_result";
+      toolCallId: string;
+      name: string;
+      content: string;
+      isError?: boolean;
+    }
+  // A call to a tool with requiresConfirmation, waiting for the user
+  | {
+      type: "confirmation_required";
+      toolCallId: string;
+      name: string;
+      // JSON arguments proposed by the model
+      arguments: string;
+    }
+  | { type: "confirmation_resolved"; toolCallId: string; approved: boolean }
+  | { type: "metadata"; metadata: ToolResultMetadata }
+  // Sent after each LLM request whose provider reports usage
+  | { type: "usage"; usage: LLMUsage }
+  | { type: "done" };
+
+export interface LLMOptions {
+  // Provider ID from providerRegistry
+  provider?: string;
+  // Model name; defaults to the provider's defaultModel
+  model?: string;
+  temperature?: number;
+}
+
+// Asks the model for JSON matching a schema instead of prose
+export interface StructuredOutput<
+  T extends Record<string, unknown> = Record<string, unknown>
+> {
+  // Name of the schema, sent to the provider (letters, digits, _ and -)
+  name: string;
+  description?: string;
+  schema: z.ZodType<T>;
+  // Widget rendering the result; without one it is shown as a JSON block
+  widget?: ContentWidget;
+}
+
+export interface AgentLoopOptions extends LLMOptions {
+  // Maximum number of LLM round trips before giving up (prevents infinite loops)
+  maxIterations?: number;
+  // Maximum time a tool handler may run, unless the tool declares its own timeoutMs
+  toolTimeoutMs?: number;
+  // Aborts the LLM request and any running tool handlers
+  signal?: AbortSignal;
+  // Names of the tools the model may call; all of toolRegistry if omitted.
+  // Tools the user's roles don't allow or they turned off are always left out.
+  allowedTools?: string[];
+  // The chat session, passed to tool handlers in their context
+  sessionId?: string;
+  // Asks the user to approve a call to a tool with requiresConfirmation and
+  // resolves with their decision; without it such calls are denied
+  confirmToolCall?: (toolCall: ToolCallInfo) => Promise<boolean>;
+  // The final answer is validated against the schema and returned as
+  // structuredContent
+  structuredOutput?: StructuredOutput;
+}
+
+const DEFAULT_MAX_ITERATIONS = 10;
+const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+// Result the model gets for a tool call the user didn't approve
+const DENIED_TOOL_CALL_RESULT = {
+  content: JSON.stringify({ error: "The user denied this tool call" }),
+  isError: true,
+};
+// Extra requests asking the model to fix an answer that fails validation
+const STRUCTURED_OUTPUT_REPAIR_ATTEMPTS = 1;
+
+/**
+ * The text of a message's content, without its images
+ */
+export function getContentText(content: ChatMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n\n");
+}
+
+/**
+ * Convert a message to the OpenAI request format
+ * @throws if a tool message has no tool_call_id
+ */
+function toCompletionMessage(
+  message: ChatMessage
+): OpenAI.Chat.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "system":
+      return { role: "system", content: getContentText(message.content) };
+    case "user":
+      return { role: "user", content: message.content };
+    case "assistant":
+      return {
+        role: "assistant",
+        content: getContentText(message.content),
+        ...(message.tool_calls?.length && { tool_calls: message.tool_calls }),
+      };
+    case "tool":
+      if (!message.tool_call_id) {
+        throw new Error("Tool message is missing its tool_call_id");
+      }
+      return {
+        role: "tool",
+        content: getContentText(message.content),
+        tool_call_id: message.tool_call_id,
+      };
+  }
+}
+
+/**
+ * Resolve the provider, client and model for a request
+ */
+function resolveProvider(options: LLMOptions) {
+  const provider = getProvider(options.provider || DEFAULT_PROVIDER_ID);
+  return {
+    provider,
+    client: getProviderClient(provider),
+    model: options.model || provider.defaultModel,
+  };
+}
+
+/**
+ * Describe why an LLM request failed, for saving on the failed message
+ * Provider errors are retryable when rate limited, overloaded or unreachable
+ */
+export function describeLLMError(
+  error: unknown,
+  options: LLMOptions
+): StoredMessageError {
+  // Unwrap errors re-thrown by getChatCompletion / streamChatCompletion
+  const cause =
+    error instanceof Error && error.cause !== undefined ? error.cause : error;
+  const providerId = options.provider || DEFAULT_PROVIDER_ID;
+  const provider = providerRegistry.find((p) => p.id === providerId);
+
+  let httpStatus: number | null = null;
+  let retryable = false;
+  if (cause instanceof OpenAI.APIError) {
+    httpStatus = cause.status ?? null;
+    // No status means the request never got a response (network, timeout)
+    retryable =
+      httpStatus === null ||
+      httpStatus === 408 ||
+      httpStatus === 409 ||
+      httpStatus === 429 ||
+      httpStatus >= 500;
+  }
+
+  return {
+    message: cause instanceof Error ? cause.message : "Unknown error",
+    provider: providerId,
+    model: options.model || provider?.defaultModel || "",
+    httpStatus,
+    retryable,
+  };
+}
+
+/**
+ * Wrap a non-streaming completion as a single-chunk stream, for providers
+ * that don't support streaming
+ */
+async function* completionAsStream(
+  completion: OpenAI.Chat.Completions.ChatCompletion
+): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
+  const choice = completion.choices[0];
+  if (!choice) return;
+
+  yield {
+    id: completion.id,
+    object: "chat.completion.chunk",
+    created: completion.created,
+    model: completion.model,
+    choices: [
+      {
+        index: 0,
+        finish_reason: choice.finish_reason,
+        delta: {
+          role: "assistant",
+          content: choice.message.content,
+          tool_calls: choice.message.tool_calls
+            ?.filter((tc) => tc.type === "function")
+            .map((tc, index) => ({
+              index,
+              id: tc.id,
+              type: "function" as const,
+              function: {
+                name: tc.function.name,
+                arguments: tc.function.arguments,
+              },
+            })),
+        },
+      },
+    ],
+    usage: completion.usage,
   };
 }
 
+/**
+ * Whether the model may call a tool under the allowedTools restriction
+ */
+function isToolAllowed(name: string, allowedTools?: string[]): boolean {
+  return !allowedTools || allowedTools.includes(name);
+}
+
 /**
  * Convert tools from registry to OpenAI format
  */
-function getTools() {
-  return toolRegistry.map((tool) => ({
-    type: "function" as const,
-    function: {
-      name: tool.name,
-      description: tool.description,
-      parameters: zodToJsonSchema(z.object(tool.inputSchema), {
-        $refStrategy: "none", // Avoid $ref references for OpenAI compatibility
-      }) as Record<string, unknown>,
-    },
-  }));
+function getTools(allowedTools?: string[]) {
+  return toolRegistry
+    .filter((tool) => isToolAllowed(tool.name, allowedTools))
+    .map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: zodToJsonSchema(z.object(tool.inputSchema), {
+          $refStrategy: "none", // Avoid $ref references for OpenAI compatibility
+        }) as Record<string, unknown>,
+      },
+    }));
 }
 
 /**
- * Call OpenAI directly to get a chat completion with tool support
- * @param messages - Array of chat messages in OpenAI format
- * @param userId - User ID for authentication context
- * @returns The assistant's response content and metadata
+ * JSON schema of a structured output, in the subset OpenAI accepts
  */
-export async function getChatCompletion(
-  messages: ChatMessage[],
-  userId: string
-): Promise<ChatCompletionResult> {
+function getStructuredOutputJsonSchema(output: StructuredOutput) {
+  return zodToJsonSchema(output.schema, {
+    $refStrategy: "none",
+    target: "openAi",
+  }) as Record<string, unknown>;
+}
+
+/**
+ * Instructions for providers without json_schema response_format
+ */
+function getStructuredOutputPrompt(output: StructuredOutput): string {
+  return [
+    `Respond with only a JSON object matching the "${output.name}" JSON schema below, without any other text or code fences.`,
+    ...(output.description ? [output.description] : []),
+    JSON.stringify(getStructuredOutputJsonSchema(output)),
+  ].join("\n");
+}
+
+/**
+ * Parse and validate a structured output answer
+ * Code fences are stripped, since prompted models often add them anyway.
+ */
+function parseStructuredOutput(
+  output: StructuredOutput,
+  content: string
+):
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string } {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let value: unknown;
   try {
-    // Create authInfo for tool handlers
-    const authInfo = {
-      token: "", // Not needed for our use case
-      extra: {
-        userId,
-      },
+    value = JSON.parse(json);
+  } catch (error) {
+    return {
+      success: false,
+      error: `invalid JSON (${
+        error instanceof Error ? error.message : "parse error"
+      })`,
     };
+  }
 
-    const tools = getTools();
-    const maxIterations = 10; // Prevent infinite loops
-    let iteration = 0;
-    let currentMessages = [...messages];
-    let finalMeta: Record<string, unknown> | undefined;
-    let finalStructuredContent: Record<string, unknown> | undefined;
-    let finalWidgetId: string | undefined;
-
-    while (iteration < maxIterations) {
-      iteration++;
-      console.log("LLM iteration", iteration);
-
-      // Use OpenAI SDK directly
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: currentMessages as any,
-        temperature: 0.7,
-        ...(tools.length > 0 && {
-          tools: tools,
-          tool_choice: "auto",
-        }),
-      });
-      console.log("llm response", response);
+  const result = output.schema.safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues
+        .map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Extract the text sent back to the model from a tool result
+ */
+function getToolResultText(result: ToolResult): string {
+  return result.content
+    .flatMap((item) => (item.type === "text" ? [item.text] : []))
+    .join("\n");
+}
 
-      const message = response.choices[0]?.message;
+/**
+ * Capture _meta, structuredContent and widgetId from a tool result.
+ * The first tool result that has them wins.
+ */
+function captureToolResultMetadata(
+  captured: ToolResultMetadata,
+  result: ToolResult
+) {
+  if (result._meta && !captured._meta) {
+    // Saved with the message (and shown on share pages), so the user's JWT
+    // is left out; the chat page's widgets use the user's own session
+    captured._meta = getPublicWidgetMeta(
+      result._meta as Record<string, unknown>
+    );
+    // Extract path from _meta if available
+    const metaPath = (result._meta as Record<string, unknown>).path;
+    if (metaPath && typeof metaPath === "string") {
+      captured.widgetId = metaPath;
+    }
+  }
 
-      if (!message) {
-        throw new Error("No message in LLM response");
-      }
+  if (result.structuredContent && !captured.structuredContent) {
+    captured.structuredContent = result.structuredContent;
+  }
+}
 
-      // Handle tool calls - check for tool_calls in the response
-      const toolCalls = message.tool_calls;
-      if (toolCalls && toolCalls.length > 0) {
-        // Filter to only function type tool calls
-        const functionToolCalls = toolCalls.filter(
-          (tc): tc is Extract<typeof tc, { type: "function" }> =>
-            tc.type === "function"
-        );
+// Who a tool is called for in the chat sandbox
+interface ToolCaller {
+  userId: string;
+  sessionId?: string;
+}
 
-        // Add assistant message with tool calls to conversation
-        currentMessages.push({
-          role: "assistant",
-          content: message.content || "",
-          tool_calls: functionToolCalls.map((tc) => ({
-            id: tc.id,
-            type: "function" as const,
-            function: {
-              name: tc.function.name,
-              arguments: tc.function.arguments,
-            },
-          })),
-        });
-
-        // Execute all tool calls
-        for (const toolCall of functionToolCalls) {
-          const tool = toolRegistry.find(
-            (t) => t.name === toolCall.function.name
-          );
-          if (!tool) {
-            console.error(`Tool ${toolCall.function.name} not found`);
-            currentMessages.push({
-              role: "tool",
-              content: JSON.stringify({
-                error: `Tool ${toolCall.function.name} not found`,
-              }),
-              tool_call_id: toolCall.id,
-              name: toolCall.function.name,
-            });
-            continue;
-          }
+/**
+ * Run a tool handler with its own AbortSignal, which is aborted when the
+ * handler takes longer than timeoutMs or when the parent signal is aborted
+ * @throws if the arguments don't match the tool's inputSchema
+ */
+async function runToolHandler(
+  tool: ToolDefinition,
+  args: unknown,
+  caller: ToolCaller,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<ToolResult> {
+  // MCP clients get their arguments validated by the MCP server; do the same
+  // for the model's arguments
+  const params = z.object(tool.inputSchema).parse(args);
+  parentSignal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+  parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new Error(`Tool ${tool.name} timed out after ${timeoutMs}ms`)
+      ),
+    timeoutMs
+  );
+
+  // Reject as soon as the signal aborts, even if the handler ignores it
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener(
+      "abort",
+      () => reject(controller.signal.reason),
+      { once: true }
+    );
+  });
 
-          try {
-            // Parse arguments
-            const args = JSON.parse(toolCall.function.arguments);
-
-            // Call the tool handler
-            console.log("calling tool", tool.name, args);
-            const result = await tool.handler(args, { authInfo });
-            console.log("called tool", result);
-
-            // Store _meta, structuredContent, and widgetId from the first tool result that has them
-            if (result._meta && !finalMeta) {
-              finalMeta = result._meta as Record<string, unknown>;
-              // Extract path from _meta if available
-              const metaPath = (result._meta as Record<string, unknown>).path;
-              if (metaPath && typeof metaPath === "string") {
-                finalWidgetId = metaPath;
-              }
-            }
-
-            // Store structuredContent from the tool result
-            if (result.structuredContent && !finalStructuredContent) {
-              finalStructuredContent = result.structuredContent as Record<
-                string,
-                unknown
-              >;
-            }
-
-            // Add tool response to conversation
-            // Extract text from content array
-            const resultText = Array.isArray(result.content)
-              ? result.content.map((item: any) => item.text || item).join("\n")
-              : JSON.stringify(result.content);
-
-            currentMessages.push({
-              role: "tool",
-              content: resultText,
-              tool_call_id: toolCall.id,
-              name: toolCall.function.name,
-            });
-          } catch (error) {
-            console.error(
-              `Error executing tool ${toolCall.function.name}:`,
-              error
-            );
-            currentMessages.push({
-              role: "tool",
-              content: JSON.stringify({
-                error: `Error executing tool: ${
-                  error instanceof Error ? error.message : "Unknown error"
-                }`,
-              }),
-              tool_call_id: toolCall.id,
-              name: toolCall.function.name,
-            });
-          }
-        }
+  try {
+    return await Promise.race([
+      tool.handler(
+        params,
+        createToolContext({
+          toolName: tool.name,
+          userId: caller.userId,
+          surface: "chat",
+          sessionId: caller.sessionId,
+          signal: controller.signal,
+        })
+      ),
+      aborted,
+    ]);
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener("abort", onParentAbort);
+  }
+}
 
-        // Continue loop to get final response after tool calls
-        continue;
-      }
+/**
+ * Execute a single tool call, turning failures into an error result for the model
+ */
+async function executeToolCall(
+  toolCall: ToolCallInfo,
+  caller: ToolCaller,
+  defaultTimeoutMs: number,
+  allowedTools?: string[],
+  signal?: AbortSignal
+): Promise<{ content: string; result?: ToolResult; isError?: boolean }> {
+  // The model only sees allowed tools, but may still name another one
+  if (!isToolAllowed(toolCall.name, allowedTools)) {
+    console.error(`Tool ${toolCall.name} is not allowed`);
+    return {
+      content: JSON.stringify({
+        error: `Tool ${toolCall.name} is not available in this conversation`,
+      }),
+      isError: true,
+    };
+  }
 
-      // No tool calls, return final response
-      const content = message.content || "";
+  const tool = toolRegistry.find((t) => t.name === toolCall.name);
+  if (!tool) {
+    console.error(`Tool ${toolCall.name} not found`);
+    return {
+      content: JSON.stringify({ error: `Tool ${toolCall.name} not found` }),
+      isError: true,
+    };
+  }
 
-      return {
-        content,
-        _meta: finalMeta,
-        structuredContent: finalStructuredContent,
-        widgetId: finalWidgetId,
-      };
-    }
+  try {
+    const args = toolCall.arguments ? JSON.parse(toolCall.arguments) : {};
+    const result = await runToolHandler(
+      tool,
+      args,
+      caller,
+      tool.timeoutMs ?? defaultTimeoutMs,
+      signal
+    );
 
-    // If we've exceeded max iterations, return the last content
-    throw new Error("Maximum tool call iterations exceeded");
+    return { content: getToolResultText(result), result };
   } catch (error) {
-    console.error("Error calling LLM:", error);
-    throw new Error(
-      `Failed to get chat completion: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
+    console.error(`Error executing tool ${toolCall.name}:`, error);
+    return {
+      content: JSON.stringify({
+        error: `Error executing tool: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      }),
+      isError: true,
+    };
   }
 }
 
 /**
- * Stream chat completion with tool support using OpenAI SDK or Grok
+ * The agent loop: calls the LLM, executes any tool calls it makes, feeds the
+ * results back and repeats until the model answers without tool calls.
+ * Both the streaming and non-streaming entry points are built on this.
  * @param messages - Array of chat messages in OpenAI format
  * @param userId - User ID for authentication context
- * @param provider - LLM provider to use: "openai" (default) or "grok"
- * @yields StreamChunk objects with content, tool calls, or metadata
+ * @param options - Provider, model and loop limits
+ * @yields StreamChunk events with content, tool calls, tool results or metadata
  */
-export async function* streamChatCompletion(
+export async function* runAgentLoop(
   messages: ChatMessage[],
   userId: string,
-  provider: "openai" | "grok" = "grok"
+  options: AgentLoopOptions = {}
 ): AsyncGenerator<StreamChunk> {
-  try {
-    // Create authInfo for tool handlers
-    const authInfo = {
-      token: "", // Not needed for our use case
-      extra: {
-        userId,
-      },
+  const caller: ToolCaller = { userId, sessionId: options.sessionId };
+
+  const { provider, client, model } = resolveProvider(options);
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const toolTimeoutMs = options.toolTimeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+  // Without tool support or with no tools allowed the model can't call any,
+  // so access isn't loaded
+  const allowedTools =
+    provider.supportsTools && options.allowedTools?.length !== 0
+      ? filterAllowedTools(await getToolAccess(userId), options.allowedTools)
+      : [];
+  const tools = getTools(allowedTools);
+  const currentMessages = messages.map(toCompletionMessage);
+  const captured: ToolResultMetadata = {};
+
+  // Structured output uses the provider's json_schema response_format, or
+  // the schema in the prompt plus validation and repair requests
+  const structuredOutput = options.structuredOutput;
+  const useResponseFormat = structuredOutput && provider.supportsJsonSchema;
+  let repairAttemptsLeft = STRUCTURED_OUTPUT_REPAIR_ATTEMPTS;
+  if (structuredOutput && !useResponseFormat) {
+    currentMessages.push({
+      role: "system",
+      content: getStructuredOutputPrompt(structuredOutput),
+    });
+  }
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const requestParams = {
+      model,
+      messages: currentMessages,
+      temperature: options.temperature ?? 0.7,
+      ...(tools.length > 0 && {
+        tools: tools,
+        tool_choice: "auto" as const,
+      }),
+      ...(useResponseFormat && {
+        response_format: {
+          type: "json_schema" as const,
+          json_schema: {
+            name: structuredOutput.name,
+            description: structuredOutput.description,
+            schema: getStructuredOutputJsonSchema(structuredOutput),
+          },
+        },
+      }),
     };
 
-    const tools = getTools();
-    const maxIterations = 10; // Prevent infinite loops
-    let iteration = 0;
-    let currentMessages = [...messages];
-    let finalMeta: Record<string, unknown> | undefined;
-    let finalStructuredContent: Record<string, unknown> | undefined;
-    let finalWidgetId: string | undefined;
-
-    while (iteration < maxIterations) {
-      iteration++;
-      console.log("LLM iteration", iteration);
-
-      // Select client and model based on provider
-      const client = provider === "grok" ? grok : openai;
-      const model =
-        provider === "grok" ? "grok-4-fast-non-reasoning" : "gpt-4o-mini";
-
-      // Use OpenAI SDK directly for streaming (works with both OpenAI and Grok)
-      const stream = await client.chat.completions.create({
-        model: model,
-        messages: currentMessages as any,
-        temperature: 0.7,
-        stream: true,
-        ...(tools.length > 0 && {
-          tools: tools,
-          tool_choice: "auto",
-        }),
-      });
-      console.log("Available tools", tools);
-
-      let accumulatedContent = "";
-      let toolCalls: Array<{
-        id: string;
-        name: string;
-        arguments: string;
-      }> = [];
-      let hasToolCalls = false;
-
-      // Stream the response
-      for await (const chunk of stream) {
-        const choice = chunk.choices?.[0];
-        if (!choice) continue;
-
-        const delta = choice.delta;
-
-        // Check for tool calls in the delta
-        // In OpenAI streaming, tool_calls come in delta.tool_calls as an array
-        // Each chunk may contain partial updates for tool calls (by index)
-        const deltaToolCalls = delta.tool_calls;
-
-        // Also check finish_reason to detect when tool calls are complete
-        if (choice.finish_reason === "tool_calls") {
-          hasToolCalls = true;
-        }
+    // Fall back to a single non-streaming request for providers without streaming
+    const requestOptions = { signal: options.signal };
+    const stream = provider.supportsStreaming
+      ? await client.stream(requestParams, requestOptions)
+      : completionAsStream(
+          await client.complete(requestParams, requestOptions)
+        );
 
-        if (deltaToolCalls && deltaToolCalls.length > 0) {
-          hasToolCalls = true;
-          // Accumulate tool call information from delta
-          // Each delta.tool_calls array element corresponds to a tool call by index
-          // Filter to only function type tool calls
-          for (const toolCallDelta of deltaToolCalls) {
-            // Only process function type tool calls
-            if (!toolCallDelta.function) continue;
-
-            // Each toolCallDelta has: index, id (on first chunk), function.name (on first chunk), function.arguments (incremental)
-            const index = toolCallDelta.index;
-            if (index === undefined) continue;
-
-            // Find or create tool call at this index
-            if (index >= toolCalls.length) {
-              // New tool call - initialize with empty values
-              toolCalls.push({
-                id: toolCallDelta.id || "",
-                name: "",
-                arguments: "",
-              });
-            }
-
-            // Update the tool call at this index
-            if (toolCallDelta.id) {
-              toolCalls[index].id = toolCallDelta.id;
-            }
-            if (toolCallDelta.function?.name) {
-              toolCalls[index].name = toolCallDelta.function.name;
-            }
-            if (toolCallDelta.function?.arguments) {
-              // Arguments come incrementally, so append
-              toolCalls[index].arguments += toolCallDelta.function.arguments;
-            }
-          }
+    let accumulatedContent = "";
+    const toolCalls: ToolCallInfo[] = [];
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      // The usage chunk has no choices
+      if (chunk.usage) {
+        usage = {
+          provider: provider.id,
+          model,
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      // Tool calls arrive as partial updates keyed by index: id and name on
+      // the first chunk, arguments incrementally
+      for (const toolCallDelta of delta.tool_calls ?? []) {
+        // Only process function type tool calls
+        if (!toolCallDelta.function) continue;
+
+        const index = toolCallDelta.index;
+        if (index === undefined) continue;
+
+        if (!toolCalls[index]) {
+          toolCalls[index] = { id: "", name: "", arguments: "" };
+        }
+        if (toolCallDelta.id) {
+          toolCalls[index].id = toolCallDelta.id;
+        }
+        if (toolCallDelta.function.name) {
+          toolCalls[index].name = toolCallDelta.function.name;
+        }
+        if (toolCallDelta.function.arguments) {
+          toolCalls[index].arguments += toolCallDelta.function.arguments;
         }
+      }
 
-        // Accumulate content
-        if (delta.content) {
-          accumulatedContent += delta.content;
-          // Yield content chunks as they arrive
-          yield {
-            type: "content",
-            content: delta.content,
-          };
+      if (delta.content) {
+        accumulatedContent += delta.content;
+        // Structured answers are only sent once they are validated
+        if (!structuredOutput) {
+          yield { type: "content", content: delta.content };
         }
       }
+    }
 
-      // After streaming is complete, check if we have tool calls
-      if (hasToolCalls && toolCalls.length > 0) {
-        console.log("has tool calls", toolCalls);
-        // Yield tool calls notification
-        yield {
-          type: "tool_call",
-          toolCalls: toolCalls,
-        };
+    if (usage) {
+      yield { type: "usage", usage };
+    }
 
-        // Add assistant message with tool calls to conversation
-        currentMessages.push({
-          role: "assistant",
-          content: accumulatedContent,
-          tool_calls: toolCalls.map((tc) => ({
-            id: tc.id,
-            type: "function",
-            function: {
-              name: tc.name,
-              arguments: tc.arguments,
-            },
-          })),
-        });
-
-        // Execute all tool calls
-        for (const toolCall of toolCalls) {
-          console.log("executing tool", toolCall.name);
-          const tool = toolRegistry.find((t) => t.name === toolCall.name);
-          if (!tool) {
-            console.error(`Tool ${toolCall.name} not found`);
-            currentMessages.push({
-              role: "tool",
-              content: JSON.stringify({
-                error: `Tool ${toolCall.name} not found`,
-              }),
-              tool_call_id: toolCall.id,
-              name: toolCall.name,
-            });
-            continue;
-          }
+    const functionToolCalls = toolCalls.filter(Boolean);
 
-          try {
-            // Parse arguments
-            const args = toolCall.arguments
-              ? JSON.parse(toolCall.arguments)
-              : {};
-
-            // Call the tool handler
-            console.log("calling tool", tool.name, args);
-            const result = await tool.handler(args, { authInfo });
-            console.log("called tool", result);
-
-            // Store _meta, structuredContent, and widgetId from the first tool result that has them
-            if (result._meta && !finalMeta) {
-              finalMeta = result._meta as Record<string, unknown>;
-              const metaPath = (result._meta as Record<string, unknown>).path;
-              if (metaPath && typeof metaPath === "string") {
-                finalWidgetId = metaPath;
-              }
-            }
-
-            if (result.structuredContent && !finalStructuredContent) {
-              finalStructuredContent = result.structuredContent as Record<
-                string,
-                unknown
-              >;
-            }
-
-            // Extract text from content array
-            const resultText = Array.isArray(result.content)
-              ? result.content.map((item: any) => item.text || item).join("\n")
-              : JSON.stringify(result.content);
-
-            // Yield tool result
-            yield {
-              type: "tool_result",
-              content: resultText,
-            };
-
-            currentMessages.push({
-              role: "tool",
-              content: resultText,
-              tool_call_id: toolCall.id,
-              name: toolCall.name,
-            });
-          } catch (error) {
-            console.error(`Error executing tool ${toolCall.name}:`, error);
-            const errorContent = JSON.stringify({
-              error: `Error executing tool: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`,
-            });
-            yield {
-              type: "tool_result",
-              content: errorContent,
-            };
-            currentMessages.push({
-              role: "tool",
-              content: errorContent,
-              tool_call_id: toolCall.id,
-              name: toolCall.name,
-            });
-          }
-        }
+    // No tool calls, the model has answered
+    if (functionToolCalls.length === 0 && structuredOutput) {
+      const parsed = parseStructuredOutput(
+        structuredOutput,
+        accumulatedContent
+      );
 
-        // Continue loop to get final response after tool calls
+      if (!parsed.success) {
+        if (repairAttemptsLeft === 0) {
+          throw new Error(
+            `Response doesn't match the ${structuredOutput.name} schema: ${parsed.error}`
+          );
+        }
+        repairAttemptsLeft--;
+        console.warn("Repairing structured output:", parsed.error);
+        currentMessages.push(
+          { role: "assistant", content: accumulatedContent },
+          {
+            role: "user",
+            content: `That response doesn't match the schema: ${parsed.error}. Reply with only the corrected JSON object.`,
+          }
+        );
         continue;
       }
 
-      // No tool calls, stream is complete
-      // Yield final metadata
-      // TODO: move this yield above "continue" to give faster feedback to the user.
-      if (finalMeta || finalStructuredContent || finalWidgetId) {
-        yield {
-          type: "metadata",
-          metadata: {
-            _meta: finalMeta,
-            structuredContent: finalStructuredContent,
-            widgetId: finalWidgetId,
-          },
-        };
+      // The validated answer replaces any structured content from tools
+      captured.structuredContent = parsed.data;
+      if (structuredOutput.widget) {
+        captured._meta = widgetMeta(structuredOutput.widget);
+        captured.widgetId = structuredOutput.widget.path;
       }
+      yield {
+        type: "content",
+        content: `\`\`\`json\n${JSON.stringify(parsed.data, null, 2)}\n\`\`\``,
+      };
+    }
 
+    if (functionToolCalls.length === 0) {
+      if (captured._meta || captured.structuredContent || captured.widgetId) {
+        yield { type: "metadata", metadata: captured };
+      }
       yield { type: "done" };
       return;
     }
 
-    // If we've exceeded max iterations
-    throw new Error("Maximum tool call iterations exceeded");
+    yield { type: "tool_call", toolCalls: functionToolCalls };
+
+    // Add assistant message with tool calls to conversation
+    currentMessages.push({
+      role: "assistant",
+      content: accumulatedContent,
+      tool_calls: functionToolCalls.map((tc) => ({
+        id: tc.id,
+        type: "function" as const,
+        function: {
+          name: tc.name,
+          arguments: tc.arguments,
+        },
+      })),
+    });
+
+    // Calls that need the user's approval are decided one by one before any
+    // call runs; denied calls get an error result instead of running
+    const deniedToolCallIds = new Set<string>();
+    for (const toolCall of functionToolCalls) {
+      const tool = toolRegistry.find((t) => t.name === toolCall.name);
+      if (
+        !tool?.requiresConfirmation ||
+        !isToolAllowed(toolCall.name, allowedTools)
+      ) {
+        continue;
+      }
+
+      yield {
+        type: "confirmation_required",
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        arguments: toolCall.arguments,
+      };
+      const approved = options.confirmToolCall
+        ? await options.confirmToolCall(toolCall)
+        : false;
+      yield {
+        type: "confirmation_resolved",
+        toolCallId: toolCall.id,
+        approved,
+      };
+
+      if (!approved) {
+        deniedToolCallIds.add(toolCall.id);
+      }
+    }
+
+    // Execute all tool calls concurrently, reporting each as it finishes
+    const results: Awaited<ReturnType<typeof executeToolCall>>[] = [];
+    const pending = new Map(
+      functionToolCalls.map((toolCall, index) => [
+        index,
+        (deniedToolCallIds.has(toolCall.id)
+          ? Promise.resolve(DENIED_TOOL_CALL_RESULT)
+          : executeToolCall(
+              toolCall,
+              caller,
+              toolTimeoutMs,
+              allowedTools,
+              options.signal
+            )
+        ).then((result) => ({ index, result })),
+      ])
+    );
+
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      pending.delete(index);
+      results[index] = result;
+
+      yield {
+        type: "tool_result",
+        toolCallId: functionToolCalls[index].id,
+        name: functionToolCalls[index].name,
+        content: result.content,
+        isError: result.isError,
+      };
+    }
+
+    // A cancelled run must not continue with another LLM request
+    options.signal?.throwIfAborted();
+
+    // Feed results back in call order so metadata capture is deterministic
+    functionToolCalls.forEach((toolCall, index) => {
+      const { content, result } = results[index];
+      if (result) {
+        captureToolResultMetadata(captured, result);
+      }
+
+      currentMessages.push({
+        role: "tool",
+        content,
+        tool_call_id: toolCall.id,
+      });
+    });
+  }
+
+  throw new Error("Maximum tool call iterations exceeded");
+}
+
+/**
+ * Get a chat completion with tool support by collecting the agent loop's events
+ * @param messages - Array of chat messages in OpenAI format
+ * @param userId - User ID for authentication context
+ * @param options - Provider, model and loop limits
+ * @returns The assistant's final response content and metadata, with the
+ * validated structuredContent when a structuredOutput schema is given
+ */
+export async function getChatCompletion<T extends Record<string, unknown>>(
+  messages: ChatMessage[],
+  userId: string,
+  options: AgentLoopOptions & { structuredOutput: StructuredOutput<T> }
+): Promise<ChatCompletionResult & { structuredContent: T }>;
+export async function getChatCompletion(
+  messages: ChatMessage[],
+  userId: string,
+  options?: AgentLoopOptions
+): Promise<ChatCompletionResult>;
+export async function getChatCompletion(
+  messages: ChatMessage[],
+  userId: string,
+  options: AgentLoopOptions = {}
+): Promise<ChatCompletionResult> {
+  try {
+    let content = "";
+    let metadata: ToolResultMetadata = {};
+    let usage: LLMUsage | undefined;
+
+    for await (const event of runAgentLoop(messages, userId, options)) {
+      if (event.type === "content") {
+        content += event.content;
+      } else if (event.type === "tool_call") {
+        // Text before a tool call isn't part of the final answer
+        content = "";
+      } else if (event.type === "metadata") {
+        metadata = event.metadata;
+      } else if (event.type === "usage") {
+        usage = {
+          ...event.usage,
+          promptTokens: (usage?.promptTokens ?? 0) + event.usage.promptTokens,
+          completionTokens:
+            (usage?.completionTokens ?? 0) + event.usage.completionTokens,
+        };
+      }
+    }
+
+    return { content, ...metadata, usage };
+  } catch (error) {
+    console.error("Error calling LLM:", error);
+    throw new Error(
+      `Failed to get chat completion: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Stream chat completion with tool support
+ * @param messages - Array of chat messages in OpenAI format
+ * @param userId - User ID for authentication context
+ * @param options - Provider, model and loop limits
+ * @yields StreamChunk objects with content, tool calls, or metadata
+ */
+export async function* streamChatCompletion(
+  messages: ChatMessage[],
+  userId: string,
+  options: AgentLoopOptions = {}
+): AsyncGenerator<StreamChunk> {
+  try {
+    yield* runAgentLoop(messages, userId, options);
   } catch (error) {
     console.error("Error streaming chat completion:", error);
     throw new Error(
       `Failed to stream chat completion: ${
         error instanceof Error ? error.message : "Unknown error"
-      }`
+      }`,
+      { cause: error }
     );
   }
 }
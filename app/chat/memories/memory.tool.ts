@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { defineTool, type ToolResult } from "@/app/mcp/tool.utils";
+import {
+  MAX_MEMORY_LENGTH,
+  rememberMemory,
+  recallMemories,
+  forgetMemory,
+} from "@/server/services/memory.service";
+
+// Built-in tools for the long-term user memory (see memory.service.ts).
+// The user comes from the handler's context, never from the arguments.
+
+function textResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+export const rememberTool = defineTool({
+  name: "remember",
+  title: "Remember",
+  description:
+    "Save a lasting fact about the user (preferences, projects, background) to remember in future conversations. Only store what the user would expect you to remember; one fact per call.",
+  inputSchema: {
+    content: z
+      .string()
+      .min(1)
+      .max(MAX_MEMORY_LENGTH)
+      .describe("The fact to remember, as a short standalone sentence"),
+  },
+  handler: async ({ content }, { userId }) => {
+    const memory = await rememberMemory(userId, content);
+    return textResult(`Remembered [${memory.id}] ${memory.content}`);
+  },
+});
+
+export const recallTool = defineTool({
+  name: "recall",
+  title: "Recall",
+  description:
+    "Search what you remember about the user from earlier conversations.",
+  inputSchema: {
+    query: z
+      .string()
+      .describe("Words to look for; empty for the most recent memories"),
+  },
+  handler: async ({ query }, { userId }) => {
+    const memories = await recallMemories(userId, query);
+    return textResult(
+      memories.length > 0
+        ? memories
+            .map((memory) => `[${memory.id}] ${memory.content}`)
+            .join("\n")
+        : "Nothing remembered matches."
+    );
+  },
+});
+
+export const forgetTool = defineTool({
+  name: "forget",
+  title: "Forget",
+  description:
+    "Delete a memory about the user, e.g. when it is outdated or the user asks you to forget it. Use the ID shown in brackets.",
+  inputSchema: {
+    memoryId: z.string().describe("ID of the memory to delete"),
+  },
+  requiresConfirmation: true,
+  handler: async ({ memoryId }, { userId }) => {
+    await forgetMemory(userId, memoryId);
+    return textResult(`Forgot ${memoryId}`);
+  },
+});
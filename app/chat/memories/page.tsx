@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { trpc } from "../../../utils/trpc";
+
+// What the assistant has remembered about the user, with editing and deleting
+export default function MemoriesPage() {
+  const utils = trpc.useUtils();
+  const { data: memories, isLoading } = trpc.chat.listMemories.useQuery();
+  // Memory being edited and its draft content
+  const [editing, setEditing] = useState<{
+    id: string;
+    content: string;
+  } | null>(null);
+
+  const updateMemoryMutation = trpc.chat.updateMemory.useMutation({
+    onSuccess: () => {
+      utils.chat.listMemories.invalidate();
+      setEditing(null);
+    },
+  });
+  const deleteMemoryMutation = trpc.chat.deleteMemory.useMutation({
+    onSuccess: () => utils.chat.listMemories.invalidate(),
+  });
+
+  const handleDelete = (memoryId: string) => {
+    if (window.confirm("Forget this memory?")) {
+      deleteMemoryMutation.mutate({ memoryId });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-baseline justify-between mb-2">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            Memories
+          </h1>
+          <Link
+            href="/chat"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to chat
+          </Link>
+        </div>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          The assistant remembers these facts across conversations. Ask it to
+          remember or forget something, or edit them here.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : !memories?.length ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Nothing remembered yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-y border-gray-200 dark:border-gray-700">
+            {memories.map((memory) => (
+              <li key={memory.id} className="group py-3">
+                {editing?.id === memory.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateMemoryMutation.mutate({
+                        memoryId: memory.id,
+                        content: editing.content,
+                      });
+                    }}
+                    className="space-y-2"
+                  >
+                    <textarea
+                      value={editing.content}
+                      onChange={(e) =>
+                        setEditing({ id: memory.id, content: e.target.value })
+                      }
+                      rows={3}
+                      autoFocus
+                      className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 resize-y"
+                    />
+                    {updateMemoryMutation.error && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        {updateMemoryMutation.error.message}
+                      </p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditing(null)}
+                        className="px-3 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={
+                          !editing.content.trim() ||
+                          updateMemoryMutation.isPending
+                        }
+                        className="px-3 py-1.5 rounded-md bg-blue-600 dark:bg-blue-500 text-white text-sm hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+                        {memory.content}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                        {new Date(memory.updated_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() =>
+                          setEditing({ id: memory.id, content: memory.content })
+                        }
+                        className="text-xs text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(memory.id)}
+                        className="text-xs text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
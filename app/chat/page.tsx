@@ -2,15 +2,31 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import React from "react";
-import Markdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import type { Components } from "react-markdown";
 import { skipToken } from "@tanstack/react-query";
 import { useSearchParams, useRouter } from "next/navigation";
+import type { inferRouterOutputs } from "@trpc/server";
+import { TRPCClientError } from "@trpc/client";
 import { trpc } from "../../utils/trpc";
+import type { AppRouter } from "../../server/routers/todo.router";
 import { STTButton } from "../voice/stt";
-import { ChatSidebar } from "@/components/ChatSidebar";
+import {
+  ChatSidebar,
+  type SessionFilter,
+  type SessionOrganization,
+} from "@/components/ChatSidebar";
+import {
+  MessageBubble,
+  ContextResetDivider,
+  formatUsage,
+  formatFileSize,
+  type Message,
+  type MessageAttachment,
+} from "@/components/MessageBubble";
 import { UserbackWidget } from "@/components/UserbackWidget";
+import {
+  SessionSettingsPicker,
+  type SessionSettingsValue,
+} from "@/components/SessionSettingsPicker";
 import { useAmplitude, useIsAdmin } from "../hooks";
 import {
   CHAT_MESSAGE_TYPE,
@@ -20,15 +36,47 @@ import {
 import type { DisplayMode } from "../hooks/types";
 
 // Types
-interface Message {
+interface ToolCallStatus {
   id: string;
-  role: "user" | "assistant" | "system";
-  content: string;
-  timestamp: Date;
-  structured_content?: {
-    _meta?: { path?: string; [key: string]: unknown };
-  } | null;
-  widget_id?: string | null;
+  name: string;
+  status: "running" | "done" | "error" | "awaiting_confirmation";
+  // Set while awaiting confirmation: the proposed JSON arguments and the run
+  // to send the decision to
+  arguments?: string;
+  runId?: string;
+}
+
+// A dev_message row as returned by chat.getMessages
+type MessageRow = inferRouterOutputs<AppRouter>["chat"]["getMessages"][number];
+
+// Build a message row for the cache until the saved message is refetched
+function createPlaceholderMessage(
+  sessionId: string,
+  role: MessageRow["role"],
+  content: string,
+  attachments: MessageAttachment[] = []
+): MessageRow {
+  const now = new Date().toISOString();
+  return {
+    id: `streaming-${Date.now()}`,
+    content,
+    structured_content: null,
+    widget_id: null,
+    role,
+    parent_id: null,
+    siblingIds: [],
+    attachments,
+    tool_calls: null,
+    tool_call_id: null,
+    tool_name: null,
+    status: "complete",
+    error: null,
+    usage: null,
+    session_id: sessionId,
+    user_id: "",
+    created_at: now,
+    updated_at: now,
+  };
 }
 
 interface ChatSession {
@@ -36,128 +84,31 @@ interface ChatSession {
   name: string;
   lastMessageTime: Date;
   messages: Message[];
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
 }
 
-// Markdown renderer using react-markdown
-function MarkdownRenderer({ content }: { content: string }) {
-  const components: Components = {
-    // Headings
-    h1: ({ ...props }) => (
-      <h1 className="text-2xl font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    h2: ({ ...props }) => (
-      <h2 className="text-xl font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    h3: ({ ...props }) => (
-      <h3 className="text-lg font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    h4: ({ ...props }) => (
-      <h4 className="text-base font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    h5: ({ ...props }) => (
-      <h5 className="text-sm font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    h6: ({ ...props }) => (
-      <h6 className="text-sm font-bold mb-2 mt-4 first:mt-0" {...props} />
-    ),
-    // Paragraphs
-    p: ({ ...props }) => (
-      <p
-        className="mb-2 last:mb-0 whitespace-pre-wrap break-words"
-        {...props}
-      />
-    ),
-    // Code blocks
-    pre: ({ ...props }) => (
-      <pre
-        className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg overflow-x-auto my-2"
-        {...props}
-      />
-    ),
-    code: (props) => {
-      const { className, children, ...rest } = props;
-      const match = /language-(\w+)/.exec(className || "");
-      const isInline = !match;
-      return isInline ? (
-        <code
-          className="bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded text-sm font-mono"
-          {...rest}
-        >
-          {children}
-        </code>
-      ) : (
-        <code className={`text-sm font-mono ${className || ""}`} {...rest}>
-          {children}
-        </code>
-      );
-    },
-    // Lists
-    ul: ({ ...props }) => (
-      <ul className="list-disc list-outside mb-2 space-y-1 ml-6" {...props} />
-    ),
-    ol: ({ ...props }) => (
-      <ol
-        className="list-decimal list-outside mb-2 space-y-1 ml-6"
-        {...props}
-      />
-    ),
-    li: ({ ...props }) => <li className="pl-2" {...props} />,
-    // Links
-    a: ({ ...props }) => (
-      <a
-        className="text-blue-600 dark:text-blue-400 hover:underline"
-        target="_blank"
-        rel="noopener noreferrer"
-        {...props}
-      />
-    ),
-    // Blockquotes
-    blockquote: ({ ...props }) => (
-      <blockquote
-        className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-2"
-        {...props}
-      />
-    ),
-    // Horizontal rule
-    hr: ({ ...props }) => (
-      <hr className="my-4 border-gray-300 dark:border-gray-700" {...props} />
-    ),
-    // Strong and emphasis
-    strong: ({ ...props }) => <strong className="font-semibold" {...props} />,
-    em: ({ ...props }) => <em className="italic" {...props} />,
-    // Tables (from remark-gfm)
-    table: ({ ...props }) => (
-      <div className="overflow-x-auto my-2">
-        <table
-          className="border-collapse border border-gray-300 dark:border-gray-700"
-          {...props}
-        />
-      </div>
-    ),
-    thead: ({ ...props }) => (
-      <thead className="bg-gray-100 dark:bg-gray-800" {...props} />
-    ),
-    tbody: ({ ...props }) => <tbody {...props} />,
-    tr: ({ ...props }) => <tr {...props} />,
-    th: ({ ...props }) => (
-      <th
-        className="border border-gray-300 dark:border-gray-700 px-4 py-2 font-semibold"
-        {...props}
-      />
-    ),
-    td: ({ ...props }) => (
-      <td
-        className="border border-gray-300 dark:border-gray-700 px-4 py-2"
-        {...props}
-      />
-    ),
-  };
+// Time until a rate limit or quota resets, if the error is a rate limit error
+function getRetryAfterMs(error: unknown): number | null {
+  if (
+    error instanceof TRPCClientError &&
+    error.data?.code === "TOO_MANY_REQUESTS"
+  ) {
+    return error.data.retryAfterMs ?? 0;
+  }
+  return null;
+}
 
-  return (
-    <Markdown remarkPlugins={[remarkGfm]} components={components}>
-      {content}
-    </Markdown>
-  );
+// Format a duration as e.g. "1h 5m", "2m 30s" or "12s"
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
 }
 
 // Get scroll key based on content length - only scrolls every 25 characters
@@ -184,144 +135,139 @@ function ScrollToMe({
   return <div ref={ref} />;
 }
 
-// Message component
-function MessageBubble({
-  message,
-  messages,
-  onDelete,
-  onRedo,
-  pinnedWidget,
+// Counts down until a rate limit or quota resets
+function RateLimitNotice({
+  resetAt,
+  onExpire,
 }: {
-  message: Message;
-  messages: Message[];
-  onDelete: (messageId: string) => void;
-  onRedo: (messageId: string) => void;
-  pinnedWidget: { messageId: string; mode: "pin" | "pinRight" } | null;
+  resetAt: number;
+  onExpire: () => void;
 }) {
-  const isUser = message.role === "user";
-  const isSystem = message.role === "system";
-  const [isCollapsed, setIsCollapsed] = useState(isSystem);
-  const [iframeHeight, setIframeHeight] = useState<number | null>(null);
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const resizeObserverRef = useRef<ResizeObserver | null>(null);
-
-  // Cleanup ResizeObserver on unmount
+  const [now, setNow] = useState(Date.now());
+
   useEffect(() => {
-    return () => {
-      if (resizeObserverRef.current) {
-        resizeObserverRef.current.disconnect();
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= resetAt) {
+        onExpire();
       }
-    };
-  }, []);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [resetAt, onExpire]);
 
   return (
-    <div
-      className={`group relative flex gap-4 py-4 px-6 ${
-        isUser
-          ? "bg-white dark:bg-gray-900"
-          : isSystem
-          ? "bg-gray-100 dark:bg-gray-800/30"
-          : "bg-gray-50 dark:bg-gray-800/50"
-      }`}
-    >
-      <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
-        {isUser ? (
-          <svg
-            className="w-5 h-5 text-gray-600 dark:text-gray-300"
-            fill="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
-          </svg>
-        ) : isSystem ? (
-          <svg
-            className="w-5 h-5 text-gray-600 dark:text-gray-300"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
-            />
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-            />
-          </svg>
+    <div className="mx-4 mb-2 px-3 py-2 rounded-md border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-950/40 text-sm text-amber-800 dark:text-amber-300">
+      You have hit the usage limit. You can send messages again in{" "}
+      {formatDuration(resetAt - now)}.
+    </div>
+  );
+}
+
+// Pretty-print a tool call's JSON arguments, or show them as they are
+function formatToolArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+// Approve/deny prompt for a tool call that requires confirmation
+function ToolCallConfirmation({
+  toolCall,
+  onRespond,
+  isResponding,
+}: {
+  toolCall: ToolCallStatus;
+  onRespond: (toolCall: ToolCallStatus, approved: boolean) => void;
+  isResponding: boolean;
+}) {
+  return (
+    <div className="my-1 p-3 rounded-md border border-amber-300 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/20 text-xs text-gray-700 dark:text-gray-300">
+      <div className="mb-2">
+        The assistant wants to run{" "}
+        <span className="font-mono">{toolCall.name}</span>
+        {toolCall.arguments && toolCall.arguments !== "{}" ? " with:" : "."}
+      </div>
+      {toolCall.arguments && toolCall.arguments !== "{}" && (
+        <pre className="mb-2 p-2 rounded bg-white dark:bg-gray-900 overflow-x-auto font-mono">
+          {formatToolArguments(toolCall.arguments)}
+        </pre>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => onRespond(toolCall, true)}
+          disabled={isResponding}
+          className="px-3 py-1 rounded-md bg-blue-600 dark:bg-blue-500 text-white hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 transition-colors"
+        >
+          Approve
+        </button>
+        <button
+          onClick={() => onRespond(toolCall, false)}
+          disabled={isResponding}
+          className="px-3 py-1 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+        >
+          Deny
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Shows the tool calls of the current turn and which of them have finished,
+// with approve/deny buttons for calls awaiting confirmation
+function ToolCallStatusList({
+  toolCalls,
+  onRespond,
+  isResponding,
+}: {
+  toolCalls: ToolCallStatus[];
+  onRespond: (toolCall: ToolCallStatus, approved: boolean) => void;
+  isResponding: boolean;
+}) {
+  return (
+    <div className="px-6 py-2 space-y-1 bg-gray-50 dark:bg-gray-800/50">
+      {toolCalls.map((toolCall) =>
+        toolCall.status === "awaiting_confirmation" ? (
+          <ToolCallConfirmation
+            key={toolCall.id}
+            toolCall={toolCall}
+            onRespond={onRespond}
+            isResponding={isResponding}
+          />
         ) : (
-          <svg
-            className="w-5 h-5 text-gray-600 dark:text-gray-300"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+          <div
+            key={toolCall.id}
+            className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
-            />
-          </svg>
-        )}
-      </div>
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center justify-between mb-1">
-          <div className="flex items-center gap-2">
-            <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-              {isUser ? "You" : isSystem ? "System" : "Assistant"}
-            </span>
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              {message.timestamp.toLocaleTimeString([], {
-                hour: "2-digit",
-                minute: "2-digit",
-              })}
-            </span>
-          </div>
-          {/* Action buttons in top right */}
-          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-            <button
-              onClick={() => setIsCollapsed(!isCollapsed)}
-              className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
-              title={isCollapsed ? "Expand" : "Collapse"}
-              aria-label={isCollapsed ? "Expand message" : "Collapse message"}
-            >
+            {toolCall.status === "running" ? (
               <svg
-                className={`w-4 h-4 transition-transform ${
-                  isCollapsed ? "" : "rotate-180"
-                }`}
+                className="w-3 h-3 animate-spin"
                 fill="none"
-                stroke="currentColor"
                 viewBox="0 0 24 24"
               >
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                />
                 <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M19 9l-7 7-7-7"
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
                 />
               </svg>
-            </button>
-            <button
-              onClick={() => {
-                if (
-                  window.confirm(
-                    "Are you sure you want to delete this message? This action cannot be undone."
-                  )
-                ) {
-                  onDelete(message.id);
-                }
-              }}
-              className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-              title="Delete message"
-              aria-label="Delete message"
-            >
+            ) : (
               <svg
-                className="w-4 h-4"
+                className={`w-3 h-3 ${
+                  toolCall.status === "error"
+                    ? "text-red-500 dark:text-red-400"
+                    : "text-green-600 dark:text-green-400"
+                }`}
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -330,191 +276,111 @@ function MessageBubble({
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                />
-              </svg>
-            </button>
-          </div>
-        </div>
-        {!isCollapsed && (
-          <>
-            {message.content && (
-              <div className="text-gray-800 dark:text-gray-200">
-                <MarkdownRenderer content={message.content} />
-              </div>
-            )}
-            {/* Display iframe for widget messages - fixed on top/right if pinned, inline otherwise */}
-            {message.structured_content?._meta?.path && (
-              <div
-                className={`${
-                  pinnedWidget?.messageId === message.id
-                    ? pinnedWidget.mode === "pinRight"
-                      ? "mt-4 lg:fixed lg:top-0 lg:right-0 lg:w-1/4 lg:h-screen lg:z-50 lg:mt-0 lg:flex lg:flex-col"
-                      : "fixed top-0 left-1/2 transform -translate-x-1/2 w-[90%] max-w-4xl z-50 mt-0"
-                    : "mt-4"
-                } rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700`}
-              >
-                <iframe
-                  ref={iframeRef}
-                  src={
-                    typeof window !== "undefined" &&
-                    message.structured_content?._meta?.path
-                      ? message.structured_content._meta.path.startsWith("http")
-                        ? message.structured_content._meta.path
-                        : `${window.location.origin}${message.structured_content._meta.path}`
-                      : "" + "?firstParty=true"
+                  d={
+                    toolCall.status === "error"
+                      ? "M6 18L18 6M6 6l12 12"
+                      : "M5 13l4 4L19 7"
                   }
-                  className={`w-full border-0 ${
-                    pinnedWidget?.messageId === message.id ? "flex-1" : ""
-                  }`}
-                  style={{
-                    height:
-                      pinnedWidget?.messageId === message.id
-                        ? "100%"
-                        : iframeHeight
-                        ? `${iframeHeight}px`
-                        : "auto",
-                    minHeight:
-                      pinnedWidget?.messageId === message.id ? "100%" : "200px",
-                  }}
-                  title="Widget Content"
-                  sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
-                  data-message-id={message.id}
-                  onLoad={(e) => {
-                    // Send structured content data to the iframe
-                    const iframe = e.currentTarget;
-                    const iframeWindow = iframe.contentWindow;
-
-                    if (iframeWindow && message.structured_content) {
-                      // Extract data from structured_content
-                      const { _meta, ...restContent } =
-                        message.structured_content;
-
-                      // Build the globals object that matches OpenAIGlobals structure
-                      const globals: Record<string, unknown> = {};
-
-                      // toolOutput contains the structured content (excluding _meta)
-                      // This is the data returned from the tool (e.g., action, standup, todos)
-                      if (Object.keys(restContent).length > 0) {
-                        globals.toolOutput = restContent;
-                      } else if (message.structured_content) {
-                        // If only _meta exists, still provide the full structured_content
-                        // This handles backward compatibility
-                        globals.toolOutput = message.structured_content;
-                      }
-
-                      // toolResponseMetadata contains the _meta (tool metadata like path, widget info)
-                      globals.toolResponseMetadata = _meta || null;
-
-                      // Send the data via postMessage
-                      // Send every 200ms for 2s to handle slow-loading iframes
-                      let attempts = 0;
-                      const maxAttempts = 10; // 2s / 200ms = 10 attempts
-                      const interval = setInterval(() => {
-                        if (iframeWindow) {
-                          iframeWindow.dispatchEvent(
-                            new CustomEvent("openai:set_globals", {
-                              detail: {
-                                globals,
-                              },
-                            })
-                          );
-                        }
-                        attempts++;
-                        if (attempts >= maxAttempts) {
-                          clearInterval(interval);
-                        }
-                      }, 200);
-                    }
-
-                    // Setup ResizeObserver after iframe loads to automatically track height
-                    try {
-                      const iframeWindow = iframe.contentWindow;
-                      if (iframeWindow?.document?.body) {
-                        const updateHeight = () => {
-                          try {
-                            if (iframeWindow?.document?.body) {
-                              const height = Math.max(
-                                iframeWindow.document.body.scrollHeight,
-                                iframeWindow.document.body.offsetHeight,
-                                iframeWindow.document.documentElement
-                                  .scrollHeight,
-                                iframeWindow.document.documentElement
-                                  .offsetHeight
-                              );
-                              if (height > 0) {
-                                setIframeHeight(height);
-                              }
-                            }
-                          } catch (e) {
-                            // Cross-origin or other error, ignore
-                          }
-                        };
-
-                        // Clean up any existing observer
-                        if (resizeObserverRef.current) {
-                          resizeObserverRef.current.disconnect();
-                        }
-
-                        // Create new ResizeObserver
-                        resizeObserverRef.current = new ResizeObserver(() => {
-                          updateHeight();
-                        });
-                        resizeObserverRef.current.observe(
-                          iframeWindow.document.body
-                        );
-                        // Get initial height
-                        updateHeight();
-                      }
-                    } catch (e) {
-                      // Cross-origin or other error, ignore
-                    }
-                  }}
                 />
-              </div>
-            )}
-            {!isUser && (
-              <button
-                className="mt-2 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 flex items-center gap-1 transition-colors"
-                onClick={() => {
-                  onRedo(message.id);
-                }}
-              >
-                <svg
-                  className="w-3 h-3"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                  />
-                </svg>
-                Redo
-              </button>
+              </svg>
             )}
-          </>
-        )}
-      </div>
+            <span className="font-mono">{toolCall.name}</span>
+            <span>
+              {toolCall.status === "running"
+                ? "running..."
+                : toolCall.status === "error"
+                ? "failed"
+                : "done"}
+            </span>
+          </div>
+        )
+      )}
     </div>
   );
 }
 
+// Keep in sync with MAX_ATTACHMENT_BYTES in app/chat/attachment.service.ts
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ATTACHMENT_ACCEPT =
+  "image/png,image/jpeg,image/gif,image/webp,application/pdf,application/json,text/plain,text/markdown,text/csv,.md,.csv,.txt,.json";
+
+// Browsers leave the type empty for some text formats
+function getFileContentType(file: File): string {
+  if (file.type) return file.type;
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  return (
+    {
+      md: "text/markdown",
+      csv: "text/csv",
+      txt: "text/plain",
+      json: "application/json",
+    }[extension ?? ""] ?? "application/octet-stream"
+  );
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:<type>;base64," prefix
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 // Chat input component
 function ChatInput({
   onSend,
+  onStop,
   isStreaming,
 }: {
-  onSend: (message: string) => void;
+  onSend: (message: string, attachments: MessageAttachment[]) => void;
+  onStop: () => void;
   isStreaming: boolean;
 }) {
   const [input, setInput] = useState("");
   const [streamingTranscript, setStreamingTranscript] = useState("");
   const [isTranscribing, setIsTranscribing] = useState(false);
+  // Uploaded files to send with the next message
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadAttachmentMutation = trpc.chat.uploadAttachment.useMutation();
+
+  // Upload files as soon as they are picked, dropped or pasted
+  const addFiles = async (files: File[]) => {
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        window.alert(
+          `${file.name} is too large, files can be up to ${formatFileSize(
+            MAX_ATTACHMENT_BYTES
+          )}.`
+        );
+        continue;
+      }
+
+      setUploadingCount((count) => count + 1);
+      try {
+        const attachment = await uploadAttachmentMutation.mutateAsync({
+          filename: file.name || "pasted-image.png",
+          contentType: getFileContentType(file),
+          data: await readFileAsBase64(file),
+        });
+        setAttachments((prev) => [...prev, attachment]);
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        window.alert(
+          `${file.name} could not be attached: ${
+            error instanceof Error ? error.message : "upload failed"
+          }`
+        );
+      } finally {
+        setUploadingCount((count) => count - 1);
+      }
+    }
+  };
 
   // Combine input and streaming transcript for display
   const displayValue = isTranscribing
@@ -545,10 +411,16 @@ function ChatInput({
       ? input +
         (streamingTranscript ? (input ? " " : "") + streamingTranscript : "")
       : input;
-    if (finalInput.trim() && !isStreaming && !isTranscribing) {
-      onSend(finalInput.trim());
+    if (
+      (finalInput.trim() || attachments.length > 0) &&
+      !isStreaming &&
+      !isTranscribing &&
+      uploadingCount === 0
+    ) {
+      onSend(finalInput.trim(), attachments);
       setInput("");
       setStreamingTranscript("");
+      setAttachments([]);
     }
   };
 
@@ -568,14 +440,118 @@ function ChatInput({
 
   return (
     <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
-      <form onSubmit={handleSubmit} className="max-w-4xl mx-auto px-4 py-4">
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          if (!e.dataTransfer.files.length) return;
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`max-w-4xl mx-auto px-4 py-4 rounded-lg transition-colors ${
+          isDragging ? "bg-blue-50 dark:bg-blue-950/40" : ""
+        }`}
+      >
+        {(attachments.length > 0 || uploadingCount > 0) && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment) => (
+              <span
+                key={attachment.id}
+                className="flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300"
+              >
+                <span className="truncate max-w-[12rem]">
+                  {attachment.filename}
+                </span>
+                <span className="text-gray-500">
+                  {formatFileSize(attachment.size_bytes)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setAttachments((prev) =>
+                      prev.filter((a) => a.id !== attachment.id)
+                    )
+                  }
+                  className="p-0.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+                  aria-label={`Remove ${attachment.filename}`}
+                >
+                  <svg
+                    className="w-3 h-3"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </span>
+            ))}
+            {uploadingCount > 0 && (
+              <span className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400">
+                Uploading...
+              </span>
+            )}
+          </div>
+        )}
         <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isStreaming}
+            className="h-12 w-10 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-50 transition-colors flex items-center justify-center flex-shrink-0"
+            title="Attach images, PDFs or text files"
+            aria-label="Attach files"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+              />
+            </svg>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              // Allow attaching the same file again
+              e.target.value = "";
+            }}
+          />
           <div className="flex items-center flex-1 relative">
             <textarea
               ref={textareaRef}
               value={displayValue}
               onChange={handleChange}
               onKeyDown={handleKeyDown}
+              onPaste={(e) => {
+                const files = Array.from(e.clipboardData.files);
+                if (files.length === 0) return;
+                // Pasting a screenshot shouldn't also paste its file name
+                if (!e.clipboardData.getData("text/plain")) e.preventDefault();
+                addFiles(files);
+              }}
               placeholder="Message ChatGPT..."
               rows={1}
               disabled={isStreaming || isTranscribing}
@@ -604,32 +580,27 @@ function ChatInput({
               />
             </div>
           </div>
-          <button
-            type="submit"
-            disabled={!input.trim() || isStreaming}
-            className="h-12 w-12 rounded-lg bg-blue-600 dark:bg-blue-500 text-white hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center flex-shrink-0"
-          >
-            {isStreaming ? (
-              <svg
-                className="w-5 h-5 animate-spin"
-                fill="none"
-                viewBox="0 0 24 24"
-              >
-                <circle
-                  className="opacity-25"
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="4"
-                />
-                <path
-                  className="opacity-75"
-                  fill="currentColor"
-                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                />
+          {isStreaming ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="h-12 w-12 rounded-lg bg-gray-800 dark:bg-gray-200 text-white dark:text-gray-900 hover:bg-gray-700 dark:hover:bg-gray-300 transition-colors flex items-center justify-center flex-shrink-0"
+              title="Stop generating"
+              aria-label="Stop generating"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="5" y="5" width="14" height="14" rx="2" />
               </svg>
-            ) : (
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={
+                (!input.trim() && attachments.length === 0) ||
+                uploadingCount > 0
+              }
+              className="h-12 w-12 rounded-lg bg-blue-600 dark:bg-blue-500 text-white hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center flex-shrink-0"
+            >
               <svg
                 className="w-5 h-5"
                 fill="none"
@@ -643,8 +614,8 @@ function ChatInput({
                   d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"
                 />
               </svg>
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -662,12 +633,28 @@ export default function ChatPage() {
   const [pendingMessage, setPendingMessage] = useState<{
     sessionId: string;
     messageId: string;
+    // Set when reconnecting to a run that is already generating
+    runId?: string;
   } | null>(null);
+  const [toolCallStatuses, setToolCallStatuses] = useState<ToolCallStatus[]>(
+    []
+  );
+  // When the rate limit or quota that blocked the last request resets
+  const [rateLimitResetAt, setRateLimitResetAt] = useState<number | null>(null);
+  const clearRateLimit = useCallback(() => setRateLimitResetAt(null), []);
   const [displayMode, setDisplayMode] = useState<DisplayMode | null>(null);
   const [pinnedWidget, setPinnedWidget] = useState<{
     messageId: string;
     mode: "pin" | "pinRight";
   } | null>(null);
+  // Settings used for the next session when there is no current session
+  const [draftSettings, setDraftSettings] = useState<SessionSettingsValue>({
+    provider: null,
+    model: null,
+    temperature: null,
+    systemPrompt: null,
+    personaId: null,
+  });
   const utils = trpc.useUtils();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -688,14 +675,47 @@ export default function ChatPage() {
     }
   }, [currentSessionId, router]);
 
-  // Fetch all sessions
+  // Fetch sessions a page at a time, filtered by the sidebar's folder or
+  // archive view
+  const [sessionFilter, setSessionFilter] = useState<SessionFilter>({});
   const {
-    data: sessionsData,
+    data: sessionsPages,
     refetch: refetchSessions,
     isLoading: isLoadingSessions,
-  } = trpc.chat.listSessions.useQuery(undefined, {
-    enabled: true,
+    fetchNextPage: fetchMoreSessions,
+    hasNextPage: hasMoreSessions,
+    isFetchingNextPage: isLoadingMoreSessions,
+  } = trpc.chat.listSessions.useInfiniteQuery(sessionFilter, {
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const sessionsData = sessionsPages?.pages.flatMap((page) => page.sessions);
+  const { data: foldersData } = trpc.chat.listFolders.useQuery();
+
+  // Fetch available LLM providers for the settings picker
+  const { data: providersData } = trpc.chat.listProviders.useQuery();
+  const { data: personasData } = trpc.chat.listPersonas.useQuery();
+
+  // Search across all sessions, run by the sidebar's search box
+  const [searchQuery, setSearchQuery] = useState("");
+  const { data: searchData, isFetching: isSearching } =
+    trpc.chat.search.useQuery(
+      { query: searchQuery },
+      {
+        enabled: searchQuery.length > 0,
+      }
+    );
+  // Message to scroll to and outline, e.g. a selected search result
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+
+  // Tokens and cost of the current session
+  const { data: sessionUsage } = trpc.chat.getSessionUsage.useQuery(
+    { sessionId: currentSessionId! },
+    {
+      enabled: !!currentSessionId,
+    }
+  );
 
   // Fetch messages for current session
   const {
@@ -716,11 +736,14 @@ export default function ChatPage() {
     pendingMessageRef.current = pendingMessage;
   }, [pendingMessage]);
 
+  // Last chunk received per run, so chunks replayed on reconnect are skipped
+  const runCursorsRef = useRef(new Map<string, number>());
+
   const streamSubscription = trpc.chat.streamMessage.useSubscription(
     pendingMessage
-      ? {
-          messageId: pendingMessage.messageId,
-        }
+      ? pendingMessage.runId
+        ? { resumeFromRunId: pendingMessage.runId, cursor: 0 }
+        : { messageId: pendingMessage.messageId }
       : skipToken,
     {
       onData: (chunk) => {
@@ -728,6 +751,10 @@ export default function ChatPage() {
         const currentPendingMessage = pendingMessageRef.current;
         if (!currentPendingMessage) return;
 
+        const lastCursor = runCursorsRef.current.get(chunk.runId) ?? -1;
+        if (chunk.cursor <= lastCursor) return;
+        runCursorsRef.current.set(chunk.runId, chunk.cursor);
+
         const sessionId = currentPendingMessage.sessionId;
 
         if (chunk.type === "content" && chunk.content) {
@@ -746,18 +773,9 @@ export default function ChatPage() {
               };
             } else {
               // If there's no assistant message yet, create one
-              const now = new Date().toISOString();
-              updated.push({
-                id: `streaming-${Date.now()}`,
-                content: content,
-                structured_content: null,
-                widget_id: null,
-                role: "assistant",
-                session_id: sessionId,
-                user_id: "",
-                created_at: now,
-                updated_at: now,
-              });
+              updated.push(
+                createPlaceholderMessage(sessionId, "assistant", content)
+              );
             }
             return updated;
           });
@@ -767,6 +785,50 @@ export default function ChatPage() {
               messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }),
             0
           );
+        } else if (chunk.type === "tool_call") {
+          // Track each tool call until its result arrives
+          const toolCalls = chunk.toolCalls;
+          setToolCallStatuses((prev) => [
+            ...prev,
+            ...toolCalls.map((toolCall) => ({
+              id: toolCall.id,
+              name: toolCall.name,
+              status: "running" as const,
+            })),
+          ]);
+        } else if (chunk.type === "confirmation_required") {
+          const { toolCallId, runId } = chunk;
+          setToolCallStatuses((prev) =>
+            prev.map((toolCall) =>
+              toolCall.id === toolCallId
+                ? {
+                    ...toolCall,
+                    status: "awaiting_confirmation",
+                    arguments: chunk.arguments,
+                    runId,
+                  }
+                : toolCall
+            )
+          );
+        } else if (chunk.type === "confirmation_resolved") {
+          // A denied call still gets a (failed) tool result from the server
+          const { toolCallId } = chunk;
+          setToolCallStatuses((prev) =>
+            prev.map((toolCall) =>
+              toolCall.id === toolCallId
+                ? { ...toolCall, status: "running" }
+                : toolCall
+            )
+          );
+        } else if (chunk.type === "tool_result") {
+          const { toolCallId, isError } = chunk;
+          setToolCallStatuses((prev) =>
+            prev.map((toolCall) =>
+              toolCall.id === toolCallId
+                ? { ...toolCall, status: isError ? "error" : "done" }
+                : toolCall
+            )
+          );
         } else if (chunk.type === "metadata" && chunk.metadata) {
           // Update the assistant message with metadata (structured content, widget info)
           const metadata = chunk.metadata; // Extract to ensure type safety
@@ -800,24 +862,90 @@ export default function ChatPage() {
           if (currentPendingMessage) {
             setIsStreaming(false);
             setPendingMessage(null);
+            setToolCallStatuses([]);
             // Refetch messages to get the final saved message
             refetchMessages();
+            // The session may have been named after this response
             refetchSessions();
+            utils.chat.getSession.invalidate({ sessionId });
+            utils.chat.getSessionUsage.invalidate({ sessionId });
           }
         }
       },
       onError: (error) => {
         console.error("Streaming error:", error);
+        const retryAfterMs = getRetryAfterMs(error);
+        if (retryAfterMs !== null) {
+          setRateLimitResetAt(Date.now() + retryAfterMs);
+        }
         // Only clear if this subscription is still the active one
         const currentPendingMessage = pendingMessageRef.current;
         if (currentPendingMessage) {
           setIsStreaming(false);
           setPendingMessage(null);
+          setToolCallStatuses([]);
+          // The partial response is saved as a failed message with a retry button
+          refetchMessages();
         }
       },
     }
   );
 
+  // Reconnect to a response still being generated, e.g. after a page reload
+  const { data: activeRun } = trpc.chat.getActiveRun.useQuery(
+    { sessionId: currentSessionId! },
+    {
+      enabled: !!currentSessionId && !pendingMessage,
+    }
+  );
+
+  useEffect(() => {
+    if (!activeRun || !currentSessionId || !messagesData || pendingMessage) {
+      return;
+    }
+    // Skip runs this page has already followed
+    if (runCursorsRef.current.has(activeRun.runId)) return;
+
+    // Drop the partial rows already saved by the run; replaying it from the
+    // start rebuilds them
+    utils.chat.getMessages.setData({ sessionId: currentSessionId }, (old) => {
+      if (!old) return old;
+      const index = old.findIndex((m) => m.id === activeRun.messageId);
+      return index === -1 ? old : old.slice(0, index + 1);
+    });
+    runCursorsRef.current.set(activeRun.runId, -1);
+    setPendingMessage({
+      sessionId: currentSessionId,
+      messageId: activeRun.messageId,
+      runId: activeRun.runId,
+    });
+    setIsStreaming(true);
+  }, [activeRun, currentSessionId, messagesData, pendingMessage, utils]);
+
+  // Scroll to the highlighted message once it is loaded, after the scroll to
+  // the latest message, then fade the outline
+  useEffect(() => {
+    if (
+      !highlightedMessageId ||
+      !messagesData?.some((m) => m.id === highlightedMessageId)
+    ) {
+      return;
+    }
+    const scrollTimeout = setTimeout(() => {
+      document
+        .getElementById(`message-${highlightedMessageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 100);
+    const clearTimeoutId = setTimeout(
+      () => setHighlightedMessageId(null),
+      3000
+    );
+    return () => {
+      clearTimeout(scrollTimeout);
+      clearTimeout(clearTimeoutId);
+    };
+  }, [highlightedMessageId, messagesData]);
+
   // Mutations
   const createSessionMutation = trpc.chat.createSession.useMutation({
     onSuccess: (session) => {
@@ -860,6 +988,23 @@ export default function ChatPage() {
     }
   }, [messagesData]);
 
+  const updateSessionSettingsMutation =
+    trpc.chat.updateSessionSettings.useMutation({
+      onSuccess: (session) => {
+        // Replace the session in the cache so the picker reflects the change
+        utils.chat.getSession.setData({ sessionId: session.id }, session);
+        utils.chat.listSessions.invalidate();
+      },
+    });
+
+  const organizeSessionMutation = trpc.chat.organizeSession.useMutation({
+    onSuccess: (session) => {
+      utils.chat.getSession.setData({ sessionId: session.id }, session);
+      utils.chat.listSessions.invalidate();
+      utils.chat.listFolders.invalidate();
+    },
+  });
+
   const deleteSessionMutation = trpc.chat.deleteSession.useMutation({
     onSuccess: (_, variables) => {
       refetchSessions();
@@ -870,6 +1015,17 @@ export default function ChatPage() {
     },
   });
 
+  const importSessionMutation = trpc.chat.importSession.useMutation({
+    onSuccess: (session) => {
+      refetchSessions();
+      setCurrentSessionId(session.id);
+      router.replace(`/chat?sessionId=${session.id}`, { scroll: false });
+    },
+  });
+
+  const createShareLinkMutation = trpc.chat.createShareLink.useMutation();
+  const revokeShareLinkMutation = trpc.chat.revokeShareLink.useMutation();
+
   const deleteMessageMutation = trpc.chat.deleteMessage.useMutation({
     onMutate: async ({ messageIds }) => {
       if (!currentSessionId) return;
@@ -907,6 +1063,19 @@ export default function ChatPage() {
   });
 
   const addUserMessageMutation = trpc.chat.addUserMessage.useMutation();
+  const switchBranchMutation = trpc.chat.switchBranch.useMutation({
+    onSuccess: () => {
+      refetchMessages();
+    },
+  });
+  const stopRunMutation = trpc.chat.stopRun.useMutation();
+  const respondToConfirmationMutation =
+    trpc.chat.respondToConfirmation.useMutation();
+  const resetContextMutation = trpc.chat.resetContext.useMutation({
+    onSuccess: () => {
+      refetchMessages();
+    },
+  });
 
   // Transform sessions data to ChatSession format
   const sessions: ChatSession[] = sessionsData
@@ -915,41 +1084,71 @@ export default function ChatPage() {
         name: session.name,
         lastMessageTime: new Date(session.updated_at),
         messages: [], // Messages will be loaded separately per session
+        pinned: !!session.pinned_at,
+        archived: !!session.archived_at,
+        folder: session.folder,
       }))
     : [];
 
   // Transform messages data to Message format
-  const messages: Message[] = messagesData
-    ? messagesData
-        .filter((message) => {
-          // Filter out system messages if user is not an admin
-          if (message.role === "system" && !isAdmin) {
-            return false;
+  const messages: Message[] = [];
+  // A regenerated response can start with a hidden tool call turn, so the
+  // versions of a hidden message are switched from the next visible one
+  let hiddenBranch: Message["branch"];
+  messagesData?.forEach((message) => {
+    const branch =
+      message.siblingIds.length > 1
+        ? {
+            siblingIds: message.siblingIds,
+            index: message.siblingIds.indexOf(message.id),
           }
-          return true;
-        })
-        .map((message) => ({
-          id: message.id,
-          role: message.role as "user" | "assistant" | "system",
-          content: message.content,
-          timestamp: new Date(message.created_at),
-          structured_content: message.structured_content as {
-            _meta?: { path?: string; [key: string]: unknown };
-          } | null,
-          widget_id: message.widget_id || null,
-        }))
-    : [];
+        : undefined;
+
+    const isHidden =
+      // Filter out system messages if user is not an admin
+      (message.role === "system" && !isAdmin) ||
+      // Tool results and tool-call-only assistant turns are kept for the
+      // model's history but not shown
+      message.role === "tool" ||
+      (!!message.tool_calls?.length && !message.content);
+    if (isHidden) {
+      hiddenBranch ??= branch;
+      return;
+    }
+
+    messages.push({
+      id: message.id,
+      role: message.role as Message["role"],
+      content: message.content,
+      timestamp: new Date(message.created_at),
+      structured_content: message.structured_content as {
+        _meta?: { path?: string; [key: string]: unknown };
+      } | null,
+      widget_id: message.widget_id || null,
+      attachments: message.attachments,
+      status: message.status,
+      error: message.error,
+      usage: message.usage,
+      parentId: message.parent_id,
+      branch: branch ?? hiddenBranch,
+    });
+    hiddenBranch = undefined;
+  });
+
+  // The current session is fetched on its own, since it may not be on a
+  // loaded page of the sidebar (e.g. archived, or opened from search)
+  const { data: currentSessionRow } = trpc.chat.getSession.useQuery(
+    currentSessionId ? { sessionId: currentSessionId } : skipToken
+  );
 
   // Get current session with messages
   const currentSession: ChatSession = currentSessionId
     ? {
         id: currentSessionId,
-        name:
-          sessions.find((s) => s.id === currentSessionId)?.name ||
-          "New conversation",
-        lastMessageTime:
-          sessions.find((s) => s.id === currentSessionId)?.lastMessageTime ||
-          new Date(),
+        name: currentSessionRow?.name || "New conversation",
+        lastMessageTime: currentSessionRow
+          ? new Date(currentSessionRow.updated_at)
+          : new Date(),
         messages,
       }
     : {
@@ -959,6 +1158,28 @@ export default function ChatPage() {
         messages: [],
       };
 
+  // LLM settings of the current session, or the draft settings for a new one
+  const sessionSettings: SessionSettingsValue = currentSessionRow
+    ? {
+        provider: currentSessionRow.provider,
+        model: currentSessionRow.model,
+        temperature: currentSessionRow.temperature,
+        systemPrompt: currentSessionRow.system_prompt,
+        personaId: currentSessionRow.persona_id,
+      }
+    : draftSettings;
+
+  const handleSettingsChange = (settings: Partial<SessionSettingsValue>) => {
+    if (currentSessionId) {
+      updateSessionSettingsMutation.mutate({
+        sessionId: currentSessionId,
+        ...settings,
+      });
+    } else {
+      setDraftSettings((prev) => ({ ...prev, ...settings }));
+    }
+  };
+
   // Set initial session when sessions are loaded (only if no URL param)
   useEffect(() => {
     const sessionIdFromUrl = searchParams.get("sessionId");
@@ -977,7 +1198,10 @@ export default function ChatPage() {
       content: string,
       role: "user" | "system",
       structuredContent?: unknown,
-      widgetId?: string
+      widgetId?: string,
+      // Message to reply to, when forking from an earlier point (see handleEdit)
+      parentId?: string | null,
+      attachments: MessageAttachment[] = []
     ) => {
       // Guard against duplicate calls - don't allow sending if already streaming
       if (isStreaming) {
@@ -991,7 +1215,11 @@ export default function ChatPage() {
       if (!sessionId) {
         try {
           const newSession = await createSessionMutation.mutateAsync({
-            name: content.slice(0, 50) || "New conversation",
+            name:
+              content.slice(0, 50) ||
+              attachments[0]?.filename.slice(0, 50) ||
+              "New conversation",
+            ...draftSettings,
           });
           sessionId = newSession.id;
           setCurrentSessionId(sessionId);
@@ -1001,27 +1229,30 @@ export default function ChatPage() {
         }
       }
 
-      const tempUserMessage = {
-        id: `streaming-${Date.now()}`,
-        content,
-        structured_content: null,
-        widget_id: null,
+      const tempUserMessage = createPlaceholderMessage(
+        sessionId,
         role,
-        session_id: sessionId,
-        user_id: "",
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
+        content,
+        attachments
+      );
       // Snapshot the previous value
       const previousMessages = utils.chat.getMessages.getData({
         sessionId,
       });
+      // A fork replaces everything after its parent on the shown branch
+      const branchMessages =
+        parentId === undefined
+          ? previousMessages
+          : previousMessages?.slice(
+              0,
+              previousMessages.findIndex((m) => m.id === parentId) + 1
+            );
 
       // Update cache with the real message from the server
       utils.chat.getMessages.setData(
         { sessionId },
-        previousMessages
-          ? [...previousMessages, tempUserMessage]
+        branchMessages
+          ? [...branchMessages, tempUserMessage]
           : [tempUserMessage]
       );
 
@@ -1039,6 +1270,8 @@ export default function ChatPage() {
           structuredContent,
           widgetId,
           role,
+          parentId,
+          attachmentIds: attachments.map((attachment) => attachment.id),
         });
 
         // Cancel any outgoing refetches (so they don't overwrite our update)
@@ -1053,10 +1286,16 @@ export default function ChatPage() {
         });
 
         // Track message sent event
-        track("send_message");
+        track(parentId === undefined ? "send_message" : "edit_message");
       } catch (error) {
         console.error("Error adding user message:", error);
         setIsStreaming(false);
+        const retryAfterMs = getRetryAfterMs(error);
+        if (retryAfterMs !== null) {
+          // The message wasn't saved - remove it and show when to retry
+          utils.chat.getMessages.setData({ sessionId }, previousMessages);
+          setRateLimitResetAt(Date.now() + retryAfterMs);
+        }
       }
     },
     [
@@ -1066,6 +1305,7 @@ export default function ChatPage() {
       utils,
       track,
       isStreaming,
+      draftSettings,
     ]
   );
 
@@ -1237,8 +1477,10 @@ export default function ChatPage() {
   }, [displayMode]);
 
   const handleNewChat = async () => {
+    // New chats start with the current settings, to make comparing models easy
     const newSession = await createSessionMutation.mutateAsync({
       name: "New conversation",
+      ...sessionSettings,
     });
     setCurrentSessionId(newSession.id);
     router.replace(`/chat?sessionId=${newSession.id}`, { scroll: false });
@@ -1254,6 +1496,140 @@ export default function ChatPage() {
     }
   };
 
+  // Download a session as a JSON document or Markdown transcript
+  const handleExportSession = async (
+    sessionId: string,
+    format: "json" | "markdown"
+  ) => {
+    try {
+      const file = await utils.chat.exportSession.fetch({ sessionId, format });
+      const url = URL.createObjectURL(
+        new Blob([file.content], { type: file.mimeType })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      track("export_session");
+    } catch (error) {
+      console.error("Error exporting session:", error);
+      window.alert("The conversation could not be exported.");
+    }
+  };
+
+  const handleImportSession = async (file: File) => {
+    try {
+      const exported = JSON.parse(await file.text());
+      await importSessionMutation.mutateAsync({ document: exported });
+      track("import_session");
+    } catch (error) {
+      console.error("Error importing session:", error);
+      window.alert(
+        `${file.name} could not be imported. Is it a conversation exported as JSON?`
+      );
+    }
+  };
+
+  const handleOrganizeSession = (
+    sessionId: string,
+    changes: SessionOrganization
+  ) => {
+    organizeSessionMutation.mutate({ sessionId, ...changes });
+  };
+
+  const handleShareSession = async (sessionId: string) => {
+    const days = window.prompt(
+      "Anyone with the link can read this conversation. Expire the link after how many days? Leave empty to keep it until you stop sharing.",
+      ""
+    );
+    // Cancelled
+    if (days === null) return;
+
+    const expiresInDays = days.trim() ? Number(days) : undefined;
+    if (
+      expiresInDays !== undefined &&
+      !(Number.isInteger(expiresInDays) && expiresInDays > 0)
+    ) {
+      window.alert("Enter a whole number of days, or leave it empty.");
+      return;
+    }
+
+    try {
+      const share = await createShareLinkMutation.mutateAsync({
+        sessionId,
+        expiresInDays,
+      });
+      const url = `${window.location.origin}/chat/share/${share.token}`;
+      await navigator.clipboard.writeText(url);
+      window.alert(`Share link copied to the clipboard:\n${url}`);
+      track("share_session");
+    } catch (error) {
+      console.error("Error sharing session:", error);
+      window.alert("The share link could not be created.");
+    }
+  };
+
+  const handleStopSharing = async (sessionId: string) => {
+    try {
+      const shares = await utils.chat.listShareLinks.fetch({ sessionId });
+      const activeShares = shares.filter((share) => !share.revoked_at);
+      await Promise.all(
+        activeShares.map((share) =>
+          revokeShareLinkMutation.mutateAsync({ shareId: share.id })
+        )
+      );
+      utils.chat.listShareLinks.invalidate({ sessionId });
+      window.alert(
+        activeShares.length > 0
+          ? "Share links revoked. They no longer open this conversation."
+          : "This conversation isn't shared."
+      );
+    } catch (error) {
+      console.error("Error revoking share links:", error);
+      window.alert("The share links could not be revoked.");
+    }
+  };
+
+  // The run continues once it has the decision, reported back as a
+  // confirmation_resolved chunk
+  const handleConfirmationResponse = (
+    toolCall: ToolCallStatus,
+    approved: boolean
+  ) => {
+    if (!toolCall.runId) return;
+    respondToConfirmationMutation.mutate({
+      runId: toolCall.runId,
+      toolCallId: toolCall.id,
+      approved,
+    });
+  };
+
+  // Stopping the run aborts the LLM request and tool calls on the server, which
+  // then saves the partial response as a stopped message
+  const handleStop = () => {
+    if (!pendingMessage) return;
+
+    const { sessionId, messageId } = pendingMessage;
+    stopRunMutation.mutate({ messageId });
+    setPendingMessage(null);
+    setIsStreaming(false);
+    setToolCallStatuses([]);
+
+    // Mark the partial response as stopped until the saved message is refetched
+    utils.chat.getMessages.setData({ sessionId }, (old) => {
+      if (!old) return old;
+      const lastMessage = old[old.length - 1];
+      if (!lastMessage || lastMessage.role !== "assistant") return old;
+      return [...old.slice(0, -1), { ...lastMessage, status: "stopped" }];
+    });
+    setTimeout(() => {
+      utils.chat.getMessages.invalidate({ sessionId });
+    }, 1000);
+
+    track("stop_message");
+  };
+
   const handleDeleteMessage = async (messageId: string) => {
     await deleteMessageMutation.mutateAsync({ messageIds: [messageId] });
   };
@@ -1289,13 +1665,12 @@ export default function ChatPage() {
       return;
     }
 
-    // Get all messages to delete (current message and all following messages)
-    const messagesToDelete = currentSession.messages.slice(currentIndex);
-    const messageIdsToDelete = messagesToDelete.map((msg) => msg.id);
-
-    // Delete the messages
-    await deleteMessageMutation.mutateAsync({
-      messageIds: messageIdsToDelete,
+    // The new response becomes a sibling of this one, so only the shown
+    // branch is trimmed back to the user message
+    utils.chat.getMessages.setData({ sessionId: currentSessionId }, (old) => {
+      if (!old) return old;
+      const index = old.findIndex((msg) => msg.id === previousMessage.id);
+      return index === -1 ? old : old.slice(0, index + 1);
     });
 
     // Trigger streaming with the previous message ID
@@ -1306,6 +1681,45 @@ export default function ChatPage() {
     setIsStreaming(true);
   };
 
+  // Editing a user message sends the new text as a sibling of the original,
+  // forking the conversation at that point
+  const handleEdit = async (messageId: string, content: string) => {
+    const message = currentSession.messages.find((msg) => msg.id === messageId);
+    if (!message) return;
+
+    // The edited message keeps the original's attachments
+    await handleSendMessage(
+      content,
+      "user",
+      undefined,
+      undefined,
+      message.parentId,
+      message.attachments
+    );
+  };
+
+  // Open the session of a search result on the branch containing the message
+  const handleSelectSearchResult = async (result: {
+    sessionId: string;
+    messageId: string;
+  }) => {
+    // The streaming session's branch can't change until the response is saved
+    if (!(isStreaming && result.sessionId === currentSessionId)) {
+      await switchBranchMutation.mutateAsync({ messageId: result.messageId });
+      await utils.chat.getMessages.invalidate({ sessionId: result.sessionId });
+    }
+    setCurrentSessionId(result.sessionId);
+    router.replace(`/chat?sessionId=${result.sessionId}`, { scroll: false });
+    setHighlightedMessageId(result.messageId);
+    track("open_search_result");
+  };
+
+  const handleSwitchBranch = (messageId: string) => {
+    if (isStreaming) return;
+    switchBranchMutation.mutate({ messageId });
+    track("switch_branch");
+  };
+
   // Find the pinned message
   const pinnedMessage = pinnedWidget
     ? currentSession.messages.find((msg) => msg.id === pinnedWidget.messageId)
@@ -1323,7 +1737,22 @@ export default function ChatPage() {
         }}
         onNewChat={handleNewChat}
         onDeleteSession={handleDeleteSession}
+        onExportSession={handleExportSession}
+        onImportSession={handleImportSession}
+        onShareSession={handleShareSession}
+        onStopSharing={handleStopSharing}
+        onOrganizeSession={handleOrganizeSession}
+        filter={sessionFilter}
+        onFilterChange={setSessionFilter}
+        folders={foldersData}
+        hasMore={!!hasMoreSessions}
+        isLoadingMore={isLoadingMoreSessions}
+        onLoadMore={() => fetchMoreSessions()}
         isLoading={isLoadingSessions}
+        onSearch={setSearchQuery}
+        onSelectSearchResult={handleSelectSearchResult}
+        searchResults={searchData?.results}
+        isSearching={isSearching}
       />
 
       {/* Main chat area */}
@@ -1332,6 +1761,50 @@ export default function ChatPage() {
           pinnedWidget?.mode === "pinRight" ? "lg:pr-[25%]" : ""
         }`}
       >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+          <div className="flex items-baseline gap-2 min-w-0">
+            <h1 className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+              {currentSession.name}
+            </h1>
+            {sessionUsage && sessionUsage.requests > 0 && (
+              <span className="flex-shrink-0 text-xs text-gray-400 dark:text-gray-500">
+                {formatUsage(
+                  sessionUsage.promptTokens + sessionUsage.completionTokens,
+                  sessionUsage.costUsd
+                )}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {currentSessionId && (
+              <button
+                onClick={() => {
+                  resetContextMutation.mutate({ sessionId: currentSessionId });
+                  track("reset_context");
+                }}
+                disabled={isStreaming || resetContextMutation.isPending}
+                className="px-2 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                title="Stop sending earlier messages to the model"
+              >
+                Reset context
+              </button>
+            )}
+            {providersData && (
+              <SessionSettingsPicker
+                providers={providersData.providers}
+                defaultProviderId={providersData.defaultProviderId}
+                personas={personasData ?? []}
+                settings={sessionSettings}
+                onChange={handleSettingsChange}
+                disabled={
+                  isStreaming || updateSessionSettingsMutation.isPending
+                }
+              />
+            )}
+          </div>
+        </div>
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto">
           {isLoadingMessages && currentSessionId ? (
@@ -1369,16 +1842,24 @@ export default function ChatPage() {
             </div>
           ) : (
             <div>
-              {currentSession.messages.map((message) => (
-                <MessageBubble
-                  key={message.id}
-                  message={message}
-                  messages={currentSession.messages}
-                  onDelete={handleDeleteMessage}
-                  onRedo={handleRedo}
-                  pinnedWidget={pinnedWidget}
-                />
-              ))}
+              {currentSession.messages.map((message) =>
+                message.role === "context_reset" ? (
+                  <ContextResetDivider key={message.id} />
+                ) : (
+                  <MessageBubble
+                    key={message.id}
+                    message={message}
+                    messages={currentSession.messages}
+                    onDelete={handleDeleteMessage}
+                    onRedo={handleRedo}
+                    onEdit={handleEdit}
+                    onSwitchBranch={handleSwitchBranch}
+                    isStreaming={isStreaming}
+                    isHighlighted={message.id === highlightedMessageId}
+                    pinnedWidget={pinnedWidget}
+                  />
+                )
+              )}
               {isStreaming &&
                 currentSession.messages.length > 0 &&
                 currentSession.messages[currentSession.messages.length - 1]
@@ -1417,6 +1898,13 @@ export default function ChatPage() {
                     </div>
                   </div>
                 )}
+              {isStreaming && toolCallStatuses.length > 0 && (
+                <ToolCallStatusList
+                  toolCalls={toolCallStatuses}
+                  onRespond={handleConfirmationResponse}
+                  isResponding={respondToConfirmationMutation.isPending}
+                />
+              )}
               {currentSession.messages.length > 0 && (
                 <ScrollToMe
                   messageId={
@@ -1434,8 +1922,24 @@ export default function ChatPage() {
         </div>
 
         {/* Input */}
+        {rateLimitResetAt && (
+          <RateLimitNotice
+            resetAt={rateLimitResetAt}
+            onExpire={clearRateLimit}
+          />
+        )}
         <ChatInput
-          onSend={(content) => handleSendMessage(content, "user")}
+          onSend={(content, attachments) =>
+            handleSendMessage(
+              content,
+              "user",
+              undefined,
+              undefined,
+              undefined,
+              attachments
+            )
+          }
+          onStop={handleStop}
           isStreaming={isStreaming}
         />
       </div>
@@ -0,0 +1,165 @@
+import { devPersona, withUserContext } from "../../server/db";
+import { eq, and, asc } from "drizzle-orm";
+import { toolRegistry } from "@/app/mcp/tools.registry";
+import { clerkClient } from "../../server/clerk";
+
+export interface PersonaInput {
+  name: string;
+  description?: string | null;
+  // Template with {{date}} and {{user_name}} placeholders
+  systemPrompt: string;
+  // Tools the model may call; null or omitted allows every tool
+  allowedTools?: string[] | null;
+}
+
+/**
+ * Check that every allowed tool exists in toolRegistry
+ * @throws if a tool name is unknown
+ */
+function validateAllowedTools(allowedTools: string[] | null | undefined) {
+  const unknownTool = allowedTools?.find(
+    (name) => !toolRegistry.some((tool) => tool.name === name)
+  );
+  if (unknownTool) {
+    throw new Error(`Tool ${unknownTool} not found`);
+  }
+}
+
+function toPersonaColumns(input: PersonaInput) {
+  validateAllowedTools(input.allowedTools);
+
+  return {
+    name: input.name,
+    description: input.description ?? null,
+    system_prompt: input.systemPrompt,
+    allowed_tools: input.allowedTools ?? null,
+  };
+}
+
+/**
+ * List the tools a persona can allow, for the persona editor
+ */
+export function listPersonaTools() {
+  return toolRegistry.map((tool) => ({
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+  }));
+}
+
+/**
+ * List a user's personas by name
+ */
+export async function listPersonas(
+  userId: string
+): Promise<Array<typeof devPersona.$inferSelect>> {
+  return withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devPersona)
+      .where(eq(devPersona.user_id, userId))
+      .orderBy(asc(devPersona.name));
+  });
+}
+
+export async function createPersona(
+  userId: string,
+  input: PersonaInput
+): Promise<typeof devPersona.$inferSelect> {
+  const columns = toPersonaColumns(input);
+
+  return withUserContext(userId, async (tx) => {
+    const [persona] = await tx
+      .insert(devPersona)
+      .values({ ...columns, user_id: userId })
+      .returning();
+
+    return persona;
+  });
+}
+
+/**
+ * Replace a persona's name, prompt and tools
+ * Sessions created from the persona use the new prompt from their next message.
+ */
+export async function updatePersona(
+  userId: string,
+  personaId: string,
+  input: PersonaInput
+): Promise<typeof devPersona.$inferSelect> {
+  const columns = toPersonaColumns(input);
+
+  return withUserContext(userId, async (tx) => {
+    const [persona] = await tx
+      .update(devPersona)
+      .set({ ...columns, updated_at: new Date() })
+      .where(and(eq(devPersona.id, personaId), eq(devPersona.user_id, userId)))
+      .returning();
+
+    if (!persona) {
+      throw new Error(`Persona with ID ${personaId} not found`);
+    }
+
+    return persona;
+  });
+}
+
+/**
+ * Delete a persona; sessions created from it keep going without it
+ */
+export async function deletePersona(
+  userId: string,
+  personaId: string
+): Promise<{ success: true }> {
+  return withUserContext(userId, async (tx) => {
+    const [persona] = await tx
+      .delete(devPersona)
+      .where(and(eq(devPersona.id, personaId), eq(devPersona.user_id, userId)))
+      .returning({ id: devPersona.id });
+
+    if (!persona) {
+      throw new Error(`Persona with ID ${personaId} not found`);
+    }
+
+    return { success: true };
+  });
+}
+
+/**
+ * Replace {{name}} placeholders with their values
+ * Unknown placeholders are left as they are.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+/**
+ * The name used for {{user_name}}: the user's Clerk name or username
+ */
+async function getUserName(userId: string): Promise<string> {
+  try {
+    const user = await clerkClient.users.getUser(userId);
+    return user.fullName || user.username || "the user";
+  } catch (error) {
+    console.warn("Failed to fetch user for persona prompt:", error);
+    return "the user";
+  }
+}
+
+/**
+ * Fill in a persona's prompt template for a request
+ */
+export async function resolvePersonaPrompt(
+  userId: string,
+  persona: typeof devPersona.$inferSelect
+): Promise<string> {
+  return renderPromptTemplate(persona.system_prompt, {
+    date: new Date().toISOString().slice(0, 10),
+    user_name: await getUserName(userId),
+  });
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { trpc } from "../../../utils/trpc";
+
+interface PersonaDraft {
+  // Null while creating a new persona
+  id: string | null;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  // Null allows every tool
+  allowedTools: string[] | null;
+}
+
+const emptyDraft: PersonaDraft = {
+  id: null,
+  name: "",
+  description: "",
+  systemPrompt: "",
+  allowedTools: null,
+};
+
+const inputClassName =
+  "w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400";
+
+// Library of reusable system prompts, picked per session on the chat page
+export default function PersonasPage() {
+  const utils = trpc.useUtils();
+  const { data: personas, isLoading } = trpc.chat.listPersonas.useQuery();
+  const { data: tools } = trpc.chat.listPersonaTools.useQuery();
+  const [draft, setDraft] = useState<PersonaDraft>(emptyDraft);
+
+  const onSaved = () => {
+    utils.chat.listPersonas.invalidate();
+    setDraft(emptyDraft);
+  };
+  const createPersonaMutation = trpc.chat.createPersona.useMutation({
+    onSuccess: onSaved,
+  });
+  const updatePersonaMutation = trpc.chat.updatePersona.useMutation({
+    onSuccess: onSaved,
+  });
+  const deletePersonaMutation = trpc.chat.deletePersona.useMutation({
+    onSuccess: () => utils.chat.listPersonas.invalidate(),
+  });
+  const saveError =
+    createPersonaMutation.error?.message ??
+    updatePersonaMutation.error?.message;
+  const isSaving =
+    createPersonaMutation.isPending || updatePersonaMutation.isPending;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = {
+      name: draft.name,
+      description: draft.description.trim() || null,
+      systemPrompt: draft.systemPrompt,
+      allowedTools: draft.allowedTools,
+    };
+    if (draft.id) {
+      updatePersonaMutation.mutate({ personaId: draft.id, ...input });
+    } else {
+      createPersonaMutation.mutate(input);
+    }
+  };
+
+  const handleDelete = (personaId: string, name: string) => {
+    if (
+      window.confirm(
+        `Delete the persona "${name}"? Sessions using it will continue without it.`
+      )
+    ) {
+      deletePersonaMutation.mutate({ personaId });
+      if (draft.id === personaId) setDraft(emptyDraft);
+    }
+  };
+
+  const toggleTool = (name: string) => {
+    const allowed = draft.allowedTools ?? [];
+    setDraft({
+      ...draft,
+      allowedTools: allowed.includes(name)
+        ? allowed.filter((tool) => tool !== name)
+        : [...allowed, name],
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-baseline justify-between mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            Personas
+          </h1>
+          <Link
+            href="/chat"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to chat
+          </Link>
+        </div>
+
+        <div className="grid gap-8 md:grid-cols-[1fr_2fr]">
+          {/* Library */}
+          <div className="space-y-2">
+            <button
+              onClick={() => setDraft(emptyDraft)}
+              className="w-full px-3 py-2 rounded-md border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              New persona
+            </button>
+            {isLoading && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Loading...
+              </p>
+            )}
+            {personas?.map((persona) => (
+              <div
+                key={persona.id}
+                className={`group flex items-start gap-2 p-3 rounded-md border transition-colors ${
+                  draft.id === persona.id
+                    ? "border-blue-500 dark:border-blue-400"
+                    : "border-gray-200 dark:border-gray-700"
+                }`}
+              >
+                <button
+                  onClick={() =>
+                    setDraft({
+                      id: persona.id,
+                      name: persona.name,
+                      description: persona.description ?? "",
+                      systemPrompt: persona.system_prompt,
+                      allowedTools: persona.allowed_tools,
+                    })
+                  }
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {persona.name}
+                  </div>
+                  {persona.description && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {persona.description}
+                    </div>
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDelete(persona.id, persona.name)}
+                  className="text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Delete ${persona.name}`}
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Name
+              </label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Code reviewer"
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <input
+                value={draft.description}
+                onChange={(e) =>
+                  setDraft({ ...draft, description: e.target.value })
+                }
+                placeholder="Optional"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                System prompt
+              </label>
+              <textarea
+                value={draft.systemPrompt}
+                onChange={(e) =>
+                  setDraft({ ...draft, systemPrompt: e.target.value })
+                }
+                rows={8}
+                placeholder="You are helping {{user_name}}. Today is {{date}}."
+                className={`${inputClassName} resize-y font-mono`}
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {"{{date}}"} and {"{{user_name}}"} are filled in on every
+                message.
+              </p>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">
+                <input
+                  type="checkbox"
+                  checked={draft.allowedTools !== null}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      allowedTools: e.target.checked ? [] : null,
+                    })
+                  }
+                />
+                Only allow selected tools
+              </label>
+              {draft.allowedTools !== null && (
+                <div className="space-y-1 pl-6">
+                  {tools?.map((tool) => (
+                    <label
+                      key={tool.name}
+                      className="flex items-start gap-2 text-sm text-gray-900 dark:text-gray-100"
+                      title={tool.description}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={draft.allowedTools?.includes(tool.name)}
+                        onChange={() => toggleTool(tool.name)}
+                        className="mt-1"
+                      />
+                      <span>
+                        {tool.title}{" "}
+                        <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                          {tool.name}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                  {draft.allowedTools.length === 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      No tools will be available.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+            {saveError && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {saveError}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              {draft.id && (
+                <button
+                  type="button"
+                  onClick={() => setDraft(emptyDraft)}
+                  className="px-3 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-3 py-1.5 rounded-md bg-blue-600 dark:bg-blue-500 text-white text-sm hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 transition-colors"
+              >
+                {draft.id ? "Save persona" : "Create persona"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
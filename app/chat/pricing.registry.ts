@@ -0,0 +1,133 @@
+export interface ModelPrice {
+  // Provider ID from providerRegistry
+  provider: string;
+  // Model name, or "*" for every model of the provider
+  model: string;
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// List prices in USD per million tokens - update them when providers change
+// their pricing. CHAT_MODEL_PRICES (a JSON array of ModelPrice) adds entries or
+// overrides these, e.g. for negotiated rates.
+const defaultPrices: ModelPrice[] = [
+  {
+    provider: "openai",
+    model: "gpt-4o-mini",
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  {
+    provider: "openai",
+    model: "gpt-4o",
+    inputPerMillion: 2.5,
+    outputPerMillion: 10,
+  },
+  {
+    provider: "openai",
+    model: "gpt-4.1",
+    inputPerMillion: 2,
+    outputPerMillion: 8,
+  },
+  {
+    provider: "openai",
+    model: "gpt-4.1-mini",
+    inputPerMillion: 0.4,
+    outputPerMillion: 1.6,
+  },
+  {
+    provider: "grok",
+    model: "grok-4-fast-non-reasoning",
+    inputPerMillion: 0.2,
+    outputPerMillion: 0.5,
+  },
+  {
+    provider: "grok",
+    model: "grok-4-fast-reasoning",
+    inputPerMillion: 0.2,
+    outputPerMillion: 0.5,
+  },
+  {
+    provider: "grok",
+    model: "grok-4",
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  {
+    provider: "anthropic",
+    model: "claude-sonnet-4-5",
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  {
+    provider: "anthropic",
+    model: "claude-haiku-4-5",
+    inputPerMillion: 1,
+    outputPerMillion: 5,
+  },
+  {
+    provider: "anthropic",
+    model: "claude-opus-4-1",
+    inputPerMillion: 15,
+    outputPerMillion: 75,
+  },
+  {
+    provider: "azure",
+    model: "gpt-4o-mini",
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  // Local models cost nothing per token
+  { provider: "ollama", model: "*", inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+function loadConfiguredPrices(): ModelPrice[] {
+  if (!process.env.CHAT_MODEL_PRICES) return [];
+  try {
+    return JSON.parse(process.env.CHAT_MODEL_PRICES) as ModelPrice[];
+  } catch (error) {
+    console.error("Invalid CHAT_MODEL_PRICES, ignoring it:", error);
+    return [];
+  }
+}
+
+// Configured prices come first so they take precedence
+export const modelPriceTable: ModelPrice[] = [
+  ...loadConfiguredPrices(),
+  ...defaultPrices,
+];
+
+/**
+ * Look up the price of a model, preferring an exact match over a "*" entry
+ */
+export function getModelPrice(
+  provider: string,
+  model: string
+): ModelPrice | undefined {
+  return (
+    modelPriceTable.find((p) => p.provider === provider && p.model === model) ??
+    modelPriceTable.find((p) => p.provider === provider && p.model === "*")
+  );
+}
+
+/**
+ * Cost of a request in USD, or null if the model has no price
+ */
+export function calculateCost(usage: {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}): number | null {
+  const price = getModelPrice(usage.provider, usage.model);
+  if (!price) {
+    console.warn("No price for model:", usage.provider, usage.model);
+    return null;
+  }
+  return (
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
@@ -0,0 +1,238 @@
+import OpenAI, { AzureOpenAI } from "openai";
+
+// Requests and responses use the OpenAI chat completions format; clients for
+// other APIs translate to and from it
+export type CompletionRequest =
+  OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
+export type Completion = OpenAI.Chat.Completions.ChatCompletion;
+export type CompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk;
+
+// What the chat code needs from a provider's SDK
+export interface LLMClient {
+  complete: (
+    request: CompletionRequest,
+    options: { signal?: AbortSignal }
+  ) => Promise<Completion>;
+  // Only called for providers with supportsStreaming. The last chunk carries
+  // the request's token usage.
+  stream: (
+    request: CompletionRequest,
+    options: { signal?: AbortSignal }
+  ) => Promise<AsyncIterable<CompletionChunk>>;
+  // One vector per text; leave out for providers without embeddings
+  embed?: (model: string, texts: string[]) => Promise<number[][]>;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  // Base URL of the OpenAI-compatible endpoint (undefined = SDK default)
+  baseURL?: string;
+  // Name of the environment variable holding the API key
+  apiKeyEnv: string;
+  // True for local servers that work without an API key
+  apiKeyOptional?: boolean;
+  defaultModel: string;
+  // Models offered in the UI; any other model name is still passed through
+  models: string[];
+  supportsTools: boolean;
+  supportsStreaming: boolean;
+  // Accepts image parts in user messages
+  supportsVision: boolean;
+  // Accepts response_format json_schema for structured output; otherwise the
+  // schema is described in the prompt and the answer validated afterwards
+  supportsJsonSchema: boolean;
+  // Context window in tokens, used to budget the conversation history
+  contextWindow: number;
+  // tiktoken encoding for exact token counts; other providers are estimated
+  tokenizer?: "o200k_base" | "cl100k_base";
+  // Build the client, e.g. with openAICompatibleClient or an adapter around
+  // another SDK
+  createClient: (provider: LLMProvider) => LLMClient;
+}
+
+/**
+ * Client for the OpenAI SDK, for OpenAI and the many OpenAI-compatible APIs
+ */
+export function openAICompatibleClient(client: OpenAI): LLMClient {
+  return {
+    complete: (request, options) =>
+      client.chat.completions.create(request, options),
+    stream: (request, options) =>
+      client.chat.completions.create(
+        {
+          ...request,
+          stream: true,
+          // Adds a final chunk with the request's token usage
+          stream_options: { include_usage: true },
+        },
+        options
+      ),
+    embed: async (model, texts) => {
+      const response = await client.embeddings.create({ model, input: texts });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+const openaiProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI",
+  apiKeyEnv: "OPENAI_API_KEY",
+  defaultModel: "gpt-4o-mini",
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1", "gpt-4.1-mini"],
+  supportsTools: true,
+  supportsStreaming: true,
+  supportsVision: true,
+  supportsJsonSchema: true,
+  contextWindow: 128_000,
+  tokenizer: "o200k_base",
+  createClient: (provider) =>
+    openAICompatibleClient(
+      new OpenAI({ apiKey: process.env[provider.apiKeyEnv] })
+    ),
+};
+
+// Grok (xAI) - uses OpenAI-compatible API
+const grokProvider: LLMProvider = {
+  id: "grok",
+  label: "Grok",
+  baseURL: "https://api.x.ai/v1",
+  apiKeyEnv: "XAI_API_KEY",
+  defaultModel: "grok-4-fast-non-reasoning",
+  models: ["grok-4-fast-non-reasoning", "grok-4-fast-reasoning", "grok-4"],
+  supportsTools: true,
+  supportsStreaming: true,
+  supportsVision: true,
+  supportsJsonSchema: true,
+  contextWindow: 256_000,
+  createClient: (provider) =>
+    openAICompatibleClient(
+      new OpenAI({
+        apiKey: process.env[provider.apiKeyEnv],
+        baseURL: provider.baseURL,
+      })
+    ),
+};
+
+// Anthropic - talks to the Messages API through Anthropic's OpenAI SDK
+// compatibility layer. A native client (@anthropic-ai/sdk) can be swapped in
+// with an LLMClient adapter translating to and from the OpenAI format.
+const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  baseURL: "https://api.anthropic.com/v1/",
+  apiKeyEnv: "ANTHROPIC_API_KEY",
+  defaultModel: "claude-sonnet-4-5",
+  models: ["claude-sonnet-4-5", "claude-haiku-4-5", "claude-opus-4-1"],
+  supportsTools: true,
+  supportsStreaming: true,
+  supportsVision: true,
+  supportsJsonSchema: false,
+  contextWindow: 200_000,
+  createClient: (provider) =>
+    openAICompatibleClient(
+      new OpenAI({
+        apiKey: process.env[provider.apiKeyEnv],
+        baseURL: provider.baseURL,
+      })
+    ),
+};
+
+// Ollama or any other local OpenAI-compatible server (LM Studio, vLLM, ...)
+const ollamaProvider: LLMProvider = {
+  id: "ollama",
+  label: "Ollama (local)",
+  baseURL: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+  apiKeyEnv: "OLLAMA_API_KEY",
+  apiKeyOptional: true,
+  defaultModel: process.env.OLLAMA_MODEL || "llama3.1",
+  models: [process.env.OLLAMA_MODEL || "llama3.1"],
+  supportsTools: true,
+  supportsStreaming: true,
+  // Depends on the model, e.g. llava or llama3.2-vision; set OLLAMA_SUPPORTS_VISION=true
+  supportsVision: process.env.OLLAMA_SUPPORTS_VISION === "true",
+  // Local servers differ in their response_format support
+  supportsJsonSchema: false,
+  // Ollama's default context is small; raise it with OLLAMA_CONTEXT_WINDOW
+  contextWindow: Number(process.env.OLLAMA_CONTEXT_WINDOW) || 8_192,
+  createClient: (provider) =>
+    openAICompatibleClient(
+      new OpenAI({
+        // Local servers ignore the key, but the SDK requires one
+        apiKey: process.env[provider.apiKeyEnv] || "ollama",
+        baseURL: provider.baseURL,
+      })
+    ),
+};
+
+// Azure OpenAI - the model name is used as the deployment name
+const azureProvider: LLMProvider = {
+  id: "azure",
+  label: "Azure OpenAI",
+  baseURL: process.env.AZURE_OPENAI_ENDPOINT,
+  apiKeyEnv: "AZURE_OPENAI_API_KEY",
+  defaultModel: process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o-mini",
+  models: [process.env.AZURE_OPENAI_DEPLOYMENT || "gpt-4o-mini"],
+  supportsTools: true,
+  supportsStreaming: true,
+  supportsVision: true,
+  supportsJsonSchema: true,
+  contextWindow: 128_000,
+  tokenizer: "o200k_base",
+  createClient: (provider) =>
+    openAICompatibleClient(
+      new AzureOpenAI({
+        apiKey: process.env[provider.apiKeyEnv],
+        endpoint: provider.baseURL,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+      })
+    ),
+};
+
+// Register your providers here
+export const providerRegistry: LLMProvider[] = [
+  openaiProvider,
+  grokProvider,
+  anthropicProvider,
+  ollamaProvider,
+  azureProvider,
+];
+
+export const DEFAULT_PROVIDER_ID = "grok";
+
+/**
+ * Look up a provider by ID
+ * @throws if the provider is not registered
+ */
+export function getProvider(providerId: string): LLMProvider {
+  const provider = providerRegistry.find((p) => p.id === providerId);
+  if (!provider) {
+    throw new Error(`LLM provider ${providerId} not found`);
+  }
+  return provider;
+}
+
+/**
+ * Whether the provider has the credentials it needs
+ */
+export function isProviderConfigured(provider: LLMProvider): boolean {
+  return !!provider.apiKeyOptional || !!process.env[provider.apiKeyEnv];
+}
+
+// Clients are created lazily so unused providers don't need credentials
+const clients = new Map<string, LLMClient>();
+
+/**
+ * Get (or create) the client for a provider
+ */
+export function getProviderClient(provider: LLMProvider): LLMClient {
+  let client = clients.get(provider.id);
+  if (!client) {
+    client = provider.createClient(provider);
+    clients.set(provider.id, client);
+  }
+  return client;
+}
@@ -0,0 +1,284 @@
+import {
+  getMessageSessionId,
+  streamUserMessageById,
+  type ChatStreamChunk,
+} from "./chat.service";
+
+// How long a run keeps going without any subscriber, so a reloading client
+// can reconnect before the generation is aborted
+const RECONNECT_GRACE_MS = 30_000;
+// How long finished runs stay available for replay
+const FINISHED_RUN_TTL_MS = 5 * 60_000;
+// How long a tool call waits for the user's approval before it is denied
+const CONFIRMATION_TIMEOUT_MS = 10 * 60_000;
+
+// A chunk as sent to subscribers, tagged with its run and position
+export type RunStreamChunk = ChatStreamChunk & {
+  runId: string;
+  cursor: number;
+};
+
+export type RunStatus = "running" | "complete" | "stopped" | "error";
+
+export interface Run {
+  id: string;
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  status: RunStatus;
+  error?: unknown;
+  // Every chunk the run produced; a chunk's index is its cursor
+  chunks: ChatStreamChunk[];
+  abortController: AbortController;
+  subscribers: number;
+  abandonTimer?: ReturnType<typeof setTimeout>;
+  // Resolved whenever a chunk is added or the run finishes
+  listeners: Set<() => void>;
+  // Tool calls waiting for the user's decision, by tool call ID
+  pendingConfirmations: Map<string, (approved: boolean) => void>;
+}
+
+// In-memory run buffer. Kept on globalThis so it survives hot reloads in dev.
+// Runs live in the server process, so resuming requires reaching the same
+// instance - swap this for a shared store to run multiple instances.
+const globalForRuns = globalThis as unknown as {
+  chatRuns?: Map<string, Run>;
+};
+const runs = (globalForRuns.chatRuns ??= new Map<string, Run>());
+
+function notify(run: Run) {
+  const listeners = [...run.listeners];
+  run.listeners.clear();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Wait for the user to approve or deny a tool call of a run
+ * Resolves with false when nobody decides within CONFIRMATION_TIMEOUT_MS.
+ * @throws the abort reason if the run is stopped while waiting
+ */
+function waitForConfirmation(run: Run, toolCallId: string): Promise<boolean> {
+  const signal = run.abortController.signal;
+
+  return new Promise<boolean>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      run.pendingConfirmations.delete(toolCallId);
+    };
+    const onAbort = () => {
+      settle();
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      settle();
+      resolve(false);
+    }, CONFIRMATION_TIMEOUT_MS);
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+    run.pendingConfirmations.set(toolCallId, (approved) => {
+      settle();
+      resolve(approved);
+    });
+  });
+}
+
+/**
+ * Start generating the response to a user message in the background
+ */
+function startRun(userId: string, sessionId: string, messageId: string): Run {
+  const run: Run = {
+    id: crypto.randomUUID(),
+    userId,
+    sessionId,
+    messageId,
+    status: "running",
+    chunks: [],
+    abortController: new AbortController(),
+    subscribers: 0,
+    listeners: new Set(),
+    pendingConfirmations: new Map(),
+  };
+  runs.set(run.id, run);
+
+  (async () => {
+    try {
+      for await (const chunk of streamUserMessageById(
+        userId,
+        messageId,
+        run.abortController.signal,
+        (toolCall) => waitForConfirmation(run, toolCall.id)
+      )) {
+        run.chunks.push(chunk);
+        notify(run);
+      }
+      run.status = run.abortController.signal.aborted ? "stopped" : "complete";
+    } catch (error) {
+      console.error("Chat run failed:", run.id, error);
+      run.status = "error";
+      run.error = error;
+    } finally {
+      clearTimeout(run.abandonTimer);
+      notify(run);
+      setTimeout(() => runs.delete(run.id), FINISHED_RUN_TTL_MS);
+    }
+  })();
+
+  return run;
+}
+
+function findRunningRun(userId: string, messageId: string): Run | undefined {
+  for (const run of runs.values()) {
+    if (
+      run.userId === userId &&
+      run.messageId === messageId &&
+      run.status === "running"
+    ) {
+      return run;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the running run for a user message, starting one if there is none.
+ * Subscribing twice to the same message attaches to the same run.
+ * @param beforeStart - Called only when a new run is about to start, e.g. to
+ * charge the rate limit; throwing prevents the run
+ */
+export async function getOrStartRun(
+  userId: string,
+  messageId: string,
+  beforeStart?: () => Promise<void>
+): Promise<Run> {
+  const existingRun = findRunningRun(userId, messageId);
+  if (existingRun) {
+    return existingRun;
+  }
+
+  const sessionId = await getMessageSessionId(userId, messageId);
+  await beforeStart?.();
+  // Another subscriber may have started the run while we were looking it up
+  return (
+    findRunningRun(userId, messageId) ?? startRun(userId, sessionId, messageId)
+  );
+}
+
+/**
+ * Get a run by ID
+ */
+export function getRun(userId: string, runId: string): Run | undefined {
+  const run = runs.get(runId);
+  return run?.userId === userId ? run : undefined;
+}
+
+/**
+ * Get the run still generating in a session, if any
+ */
+export function getActiveRun(
+  userId: string,
+  sessionId: string
+): Run | undefined {
+  for (const run of runs.values()) {
+    if (
+      run.userId === userId &&
+      run.sessionId === sessionId &&
+      run.status === "running"
+    ) {
+      return run;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stop the run generating the response to a user message
+ * The partial response is saved as a stopped message
+ */
+export function stopRun(userId: string, messageId: string): boolean {
+  const run = findRunningRun(userId, messageId);
+  run?.abortController.abort();
+  return !!run;
+}
+
+/**
+ * Approve or deny a tool call its run is waiting on
+ * @returns false if the run isn't waiting for that tool call
+ */
+export function respondToConfirmation(
+  userId: string,
+  runId: string,
+  toolCallId: string,
+  approved: boolean
+): boolean {
+  const respond = getRun(userId, runId)?.pendingConfirmations.get(toolCallId);
+  respond?.(approved);
+  return !!respond;
+}
+
+/**
+ * Register a subscriber. The returned function unregisters it; once a running
+ * run has no subscribers left for RECONNECT_GRACE_MS, it is aborted.
+ */
+export function attachSubscriber(run: Run): () => void {
+  run.subscribers++;
+  clearTimeout(run.abandonTimer);
+
+  return () => {
+    run.subscribers--;
+    if (run.subscribers === 0 && run.status === "running") {
+      run.abandonTimer = setTimeout(() => {
+        run.abortController.abort();
+      }, RECONNECT_GRACE_MS);
+    }
+  };
+}
+
+/**
+ * Replay a run's chunks from a cursor, then follow it live until it finishes
+ * or the signal is aborted (the subscriber went away)
+ * @throws the run's error if it failed
+ */
+export async function* followRun(
+  run: Run,
+  fromCursor = 0,
+  signal?: AbortSignal
+): AsyncGenerator<{ cursor: number; chunk: ChatStreamChunk }> {
+  let cursor = fromCursor;
+
+  while (!signal?.aborted) {
+    while (cursor < run.chunks.length && !signal?.aborted) {
+      yield { cursor, chunk: run.chunks[cursor] };
+      cursor++;
+    }
+
+    if (signal?.aborted) {
+      return;
+    }
+    if (run.status === "error") {
+      throw run.error;
+    }
+    if (run.status !== "running") {
+      return;
+    }
+
+    // Stop waiting for the next chunk as soon as the subscriber leaves,
+    // rather than when the run next produces one
+    await new Promise<void>((resolve) => {
+      const onAbort = () => {
+        run.listeners.delete(listener);
+        resolve();
+      };
+      const listener = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      run.listeners.add(listener);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
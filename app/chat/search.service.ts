@@ -0,0 +1,243 @@
+import {
+  devSession,
+  devMessage,
+  devMessageEmbedding,
+  withUserContext,
+} from "../../server/db";
+import { eq, and, desc, asc, lte, inArray, sql } from "drizzle-orm";
+import { getEmbeddingProvider } from "./embedding.registry";
+
+// Markers ts_headline puts around matched words. Control characters can't
+// clash with message text, unlike HTML tags.
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`;
+// Length of the snippet shown for semantic matches
+const SEMANTIC_SNIPPET_LENGTH = 200;
+// Semantic matches further than this cosine distance (0 = same direction,
+// 2 = opposite) from the query are dropped as unrelated
+const MAX_SEMANTIC_DISTANCE =
+  Number(process.env.CHAT_SEMANTIC_MAX_DISTANCE) || 0.5;
+// Longer messages are cut before embedding
+const MAX_EMBEDDING_INPUT_LENGTH = 8_000;
+
+// Only conversation text is searchable, not tool results
+const searchableRoles: Array<(typeof devMessage.$inferSelect)["role"]> = [
+  "user",
+  "assistant",
+];
+
+export interface SearchResult {
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  role: (typeof devMessage.$inferSelect)["role"];
+  createdAt: Date;
+  // Snippet of the message, split into matched and unmatched parts
+  snippet: Array<{ text: string; highlight: boolean }>;
+  match: "text" | "semantic";
+}
+
+/**
+ * Split a ts_headline result into highlighted and plain parts
+ */
+function toSnippet(headline: string): SearchResult["snippet"] {
+  const snippet: SearchResult["snippet"] = [];
+  const pattern = new RegExp(
+    `${HIGHLIGHT_START}([\\s\\S]*?)${HIGHLIGHT_END}`,
+    "g"
+  );
+  let lastIndex = 0;
+
+  for (const match of headline.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      snippet.push({
+        text: headline.slice(lastIndex, match.index),
+        highlight: false,
+      });
+    }
+    snippet.push({ text: match[1], highlight: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < headline.length) {
+    snippet.push({ text: headline.slice(lastIndex), highlight: false });
+  }
+
+  return snippet;
+}
+
+/**
+ * Full-text search over the user's messages, best matches first
+ */
+async function searchText(
+  userId: string,
+  query: string,
+  limit: number
+): Promise<SearchResult[]> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  // Must match the expression of dev_message_content_search_idx
+  const document = sql`to_tsvector('english', ${devMessage.content})`;
+  const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+
+  const rows = await withUserContext(userId, async (tx) => {
+    return tx
+      .select({
+        sessionId: devMessage.session_id,
+        sessionName: devSession.name,
+        messageId: devMessage.id,
+        role: devMessage.role,
+        createdAt: devMessage.created_at,
+        headline: sql<string>`ts_headline('english', ${devMessage.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(devMessage)
+      .innerJoin(devSession, eq(devSession.id, devMessage.session_id))
+      .where(
+        and(
+          eq(devMessage.user_id, userId),
+          inArray(devMessage.role, searchableRoles),
+          sql`${document} @@ ${tsQuery}`
+        )
+      )
+      .orderBy(desc(rank), desc(devMessage.created_at))
+      .limit(limit);
+  });
+
+  return rows.map(({ headline, ...row }) => ({
+    ...row,
+    snippet: toSnippet(headline),
+    match: "text",
+  }));
+}
+
+/**
+ * Nearest messages to the query by embedding, within MAX_SEMANTIC_DISTANCE,
+ * or none when no embedding provider is configured
+ */
+async function searchSemantic(
+  userId: string,
+  query: string,
+  limit: number
+): Promise<SearchResult[]> {
+  const provider = getEmbeddingProvider();
+  if (!provider) return [];
+
+  const [queryEmbedding] = await provider.embed(provider, [query]);
+  const distance = sql<number>`${
+    devMessageEmbedding.embedding
+  } <=> ${JSON.stringify(queryEmbedding)}::vector`;
+
+  const rows = await withUserContext(userId, async (tx) => {
+    return tx
+      .select({
+        sessionId: devMessage.session_id,
+        sessionName: devSession.name,
+        messageId: devMessage.id,
+        role: devMessage.role,
+        createdAt: devMessage.created_at,
+        content: devMessage.content,
+      })
+      .from(devMessageEmbedding)
+      .innerJoin(devMessage, eq(devMessage.id, devMessageEmbedding.message_id))
+      .innerJoin(devSession, eq(devSession.id, devMessage.session_id))
+      .where(
+        and(
+          eq(devMessageEmbedding.user_id, userId),
+          eq(devMessageEmbedding.model, provider.model),
+          lte(distance, MAX_SEMANTIC_DISTANCE)
+        )
+      )
+      .orderBy(asc(distance))
+      .limit(limit);
+  });
+
+  return rows.map(({ content, ...row }) => ({
+    ...row,
+    snippet: [
+      {
+        text:
+          content.length > SEMANTIC_SNIPPET_LENGTH
+            ? `${content.slice(0, SEMANTIC_SNIPPET_LENGTH)}…`
+            : content,
+        highlight: false,
+      },
+    ],
+    match: "semantic",
+  }));
+}
+
+/**
+ * Search the user's messages across all sessions
+ * Full-text matches come first, followed by semantic matches when an
+ * embedding provider is configured. Semantic search failures are logged and
+ * leave just the full-text results.
+ */
+export async function searchMessages(
+  userId: string,
+  query: string,
+  options: { limit?: number; semantic?: boolean } = {}
+): Promise<{ results: SearchResult[]; semantic: boolean }> {
+  const limit = options.limit ?? 20;
+  const results = await searchText(userId, query, limit);
+
+  const semantic = options.semantic !== false && !!getEmbeddingProvider();
+  if (!semantic || results.length >= limit) {
+    return { results, semantic };
+  }
+
+  try {
+    const seen = new Set(results.map((result) => result.messageId));
+    const semanticResults = await searchSemantic(userId, query, limit);
+    results.push(
+      ...semanticResults
+        .filter((result) => !seen.has(result.messageId))
+        .slice(0, limit - results.length)
+    );
+  } catch (error) {
+    console.error("Semantic search failed:", error);
+  }
+
+  return { results, semantic };
+}
+
+/**
+ * Store the embedding of a message for semantic search
+ * Does nothing without an embedding provider; failures are logged, not
+ * thrown, so indexing never fails a chat request
+ */
+export async function indexMessageEmbedding(
+  userId: string,
+  message: typeof devMessage.$inferSelect
+): Promise<void> {
+  const provider = getEmbeddingProvider();
+  if (
+    !provider ||
+    !message.content.trim() ||
+    !searchableRoles.includes(message.role)
+  ) {
+    return;
+  }
+
+  try {
+    const [embedding] = await provider.embed(provider, [
+      message.content.slice(0, MAX_EMBEDDING_INPUT_LENGTH),
+    ]);
+
+    await withUserContext(userId, async (tx) => {
+      await tx
+        .insert(devMessageEmbedding)
+        .values({
+          message_id: message.id,
+          session_id: message.session_id,
+          user_id: userId,
+          model: provider.model,
+          embedding,
+        })
+        .onConflictDoUpdate({
+          target: devMessageEmbedding.message_id,
+          set: { model: provider.model, embedding, created_at: new Date() },
+        });
+    });
+  } catch (error) {
+    console.error("Error indexing message embedding:", error);
+  }
+}
@@ -0,0 +1,186 @@
+import { randomBytes } from "crypto";
+import {
+  devSession,
+  devMessage,
+  devSessionShare,
+  withUserContext,
+  withShareContext,
+} from "../../server/db";
+import { eq, and, or, desc, gt, isNull, inArray, sql } from "drizzle-orm";
+import { getPublicStructuredContent } from "@/app/mcp/tool.utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Roles shown on the share page; tool results and system prompts stay private
+const sharedRoles: Array<(typeof devMessage.$inferSelect)["role"]> = [
+  "user",
+  "assistant",
+  "context_reset",
+];
+
+/**
+ * Create a read-only link to a session
+ * @param expiresInDays - days until the link stops working, or never if omitted
+ */
+export async function createShareLink(
+  userId: string,
+  sessionId: string,
+  expiresInDays?: number
+): Promise<typeof devSessionShare.$inferSelect> {
+  return withUserContext(userId, async (tx) => {
+    const [session] = await tx
+      .select({ id: devSession.id })
+      .from(devSession)
+      .where(and(eq(devSession.id, sessionId), eq(devSession.user_id, userId)))
+      .limit(1);
+
+    if (!session) {
+      throw new Error(`Session with ID ${sessionId} not found`);
+    }
+
+    const [share] = await tx
+      .insert(devSessionShare)
+      .values({
+        // 192 bits, so tokens can't be guessed
+        token: randomBytes(24).toString("base64url"),
+        session_id: sessionId,
+        user_id: userId,
+        expires_at: expiresInDays
+          ? new Date(Date.now() + expiresInDays * DAY_MS)
+          : null,
+      })
+      .returning();
+
+    return share;
+  });
+}
+
+/**
+ * List the share links of a session, newest first, including revoked and
+ * expired ones
+ */
+export async function listShareLinks(
+  userId: string,
+  sessionId: string
+): Promise<Array<typeof devSessionShare.$inferSelect>> {
+  return withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devSessionShare)
+      .where(
+        and(
+          eq(devSessionShare.session_id, sessionId),
+          eq(devSessionShare.user_id, userId)
+        )
+      )
+      .orderBy(desc(devSessionShare.created_at));
+  });
+}
+
+/**
+ * Revoke a share link; the link stops working immediately
+ */
+export async function revokeShareLink(
+  userId: string,
+  shareId: string
+): Promise<typeof devSessionShare.$inferSelect> {
+  return withUserContext(userId, async (tx) => {
+    const [share] = await tx
+      .update(devSessionShare)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(devSessionShare.id, shareId),
+          eq(devSessionShare.user_id, userId)
+        )
+      )
+      .returning();
+
+    if (!share) {
+      throw new Error(`Share link with ID ${shareId} not found`);
+    }
+
+    return share;
+  });
+}
+
+/**
+ * Load a shared session for anyone holding the token
+ * Only the user and assistant messages of the active branch are returned,
+ * without the owner's settings, tool calls, usage or errors.
+ * @returns null when the token doesn't exist, is revoked, or has expired
+ */
+export async function getSharedSession(token: string) {
+  return withShareContext(token, async (tx) => {
+    // The share policies also only return the row while the link is valid,
+    // but they are a backstop in case RLS doesn't apply to the app's role
+    const [share] = await tx
+      .select()
+      .from(devSessionShare)
+      .where(
+        and(
+          eq(devSessionShare.token, token),
+          isNull(devSessionShare.revoked_at),
+          or(
+            isNull(devSessionShare.expires_at),
+            gt(devSessionShare.expires_at, new Date())
+          )
+        )
+      )
+      .limit(1);
+
+    if (!share) {
+      return null;
+    }
+
+    const [session] = await tx
+      .select()
+      .from(devSession)
+      .where(eq(devSession.id, share.session_id))
+      .limit(1);
+
+    if (!session) {
+      return null;
+    }
+
+    // Only what the share page renders: no tool calls, usage or errors
+    const messages = await tx
+      .select({
+        id: devMessage.id,
+        role: devMessage.role,
+        content: devMessage.content,
+        structured_content: devMessage.structured_content,
+        widget_id: devMessage.widget_id,
+        status: devMessage.status,
+        parent_id: devMessage.parent_id,
+        created_at: devMessage.created_at,
+        tool_calls: devMessage.tool_calls,
+      })
+      .from(devMessage)
+      .where(
+        and(
+          eq(devMessage.session_id, session.id),
+          inArray(devMessage.role, sharedRoles),
+          // The active branch runs through tool messages, which the share
+          // policies hide, so it's found in the database
+          sql`${devMessage.id} IN (SELECT dev_shared_branch_ids(${token}))`
+        )
+      )
+      .orderBy(devMessage.created_at, devMessage.id);
+
+    return {
+      session: {
+        name: session.name,
+        createdAt: session.created_at,
+      },
+      expiresAt: share.expires_at,
+      messages: messages
+        // Turns that only call tools have nothing to show
+        .filter((message) => !(message.tool_calls?.length && !message.content))
+        .map(({ tool_calls, structured_content, ...message }) => ({
+          ...message,
+          structured_content: getPublicStructuredContent(structured_content),
+        })),
+    };
+  });
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect } from "react";
+import { useParams } from "next/navigation";
+import { trpc } from "../../../../utils/trpc";
+import {
+  MessageBubble,
+  ContextResetDivider,
+  type Message,
+} from "@/components/MessageBubble";
+import { CHAT_MESSAGE_FROM_PARENT_TYPE } from "../../../hooks/use-send-message";
+
+// Read-only view of a shared session, open to anyone with the link
+export default function SharedSessionPage() {
+  const { token } = useParams<{ token: string }>();
+  const { data, isLoading, error } = trpc.chat.getSharedSession.useQuery(
+    { token },
+    // An invalid or revoked token won't start working on a retry
+    { retry: false }
+  );
+
+  // Send the conversation to widget iframes, as the chat page does
+  useEffect(() => {
+    if (!data) return;
+
+    const messagesToSend = data.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      id: m.id,
+    }));
+    document.querySelectorAll("iframe[data-message-id]").forEach((iframe) => {
+      (iframe as HTMLIFrameElement).contentWindow?.postMessage(
+        { type: CHAT_MESSAGE_FROM_PARENT_TYPE, messages: messagesToSend },
+        "*"
+      );
+    });
+  }, [data]);
+
+  // The server only sends what's shown: no system prompts or tool results
+  const messages: Message[] = (data?.messages ?? []).map((message) => ({
+    id: message.id,
+    role: message.role as Message["role"],
+    content: message.content,
+    timestamp: new Date(message.created_at),
+    structured_content: message.structured_content as {
+      _meta?: { path?: string; [key: string]: unknown };
+    } | null,
+    widget_id: message.widget_id || null,
+    status: message.status,
+    parentId: message.parent_id,
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-white dark:bg-gray-900">
+        <p className="text-gray-500 dark:text-gray-400">
+          Loading conversation...
+        </p>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-white dark:bg-gray-900">
+        <div className="text-center px-4">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Conversation not available
+          </h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {error?.message ?? "This share link doesn't work anymore."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-white dark:bg-gray-900">
+      {/* Header */}
+      <div className="flex items-baseline justify-between gap-4 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+          {data.session.name}
+        </h1>
+        <span className="flex-shrink-0 text-xs text-gray-400 dark:text-gray-500">
+          Shared conversation
+          {data.expiresAt &&
+            ` · expires ${new Date(data.expiresAt).toLocaleDateString()}`}
+        </span>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto">
+        {messages.map((message) =>
+          message.role === "context_reset" ? (
+            <ContextResetDivider key={message.id} />
+          ) : (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              messages={messages}
+              pinnedWidget={null}
+            />
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export interface AttachmentStorage {
+  id: string;
+  label: string;
+  // Keys are relative paths like "<userId>/<attachmentId>"
+  put: (key: string, data: Buffer) => Promise<void>;
+  get: (key: string) => Promise<Buffer>;
+  delete: (key: string) => Promise<void>;
+}
+
+const localRoot = path.resolve(
+  process.env.ATTACHMENT_STORAGE_DIR || ".data/attachments"
+);
+
+/**
+ * Resolve a key to a file under the local storage root
+ * @throws if the key would escape the root, e.g. through ".."
+ */
+function toLocalPath(key: string): string {
+  const filePath = path.resolve(localRoot, key);
+  if (!filePath.startsWith(localRoot + path.sep)) {
+    throw new Error(`Invalid attachment key ${key}`);
+  }
+  return filePath;
+}
+
+// Files on the server's disk. Only suitable for a single server instance or
+// a shared volume.
+const localDiskStorage: AttachmentStorage = {
+  id: "local",
+  label: "Local disk",
+  put: async (key, data) => {
+    const filePath = toLocalPath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  },
+  get: async (key) => readFile(toLocalPath(key)),
+  delete: async (key) => rm(toLocalPath(key), { force: true }),
+};
+
+// Register your storage backends here (e.g. S3)
+export const storageRegistry: AttachmentStorage[] = [localDiskStorage];
+
+/**
+ * Look up a storage backend by ID
+ * @throws if the backend is not registered
+ */
+export function getStorage(storageId: string): AttachmentStorage {
+  const storage = storageRegistry.find((s) => s.id === storageId);
+  if (!storage) {
+    throw new Error(`Attachment storage ${storageId} not found`);
+  }
+  return storage;
+}
+
+/**
+ * The storage new attachments are written to, selected with
+ * ATTACHMENT_STORAGE (default "local")
+ */
+export function getDefaultStorage(): AttachmentStorage {
+  return getStorage(process.env.ATTACHMENT_STORAGE || "local");
+}
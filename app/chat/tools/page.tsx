@@ -0,0 +1,85 @@
+"use client";
+
+import Link from "next/link";
+import { trpc } from "../../../utils/trpc";
+
+// Turn tools on or off for the chat sandbox and MCP clients
+export default function ToolsPage() {
+  const utils = trpc.useUtils();
+  const { data: tools, isLoading } = trpc.chat.listToolSettings.useQuery();
+
+  const setToolEnabledMutation = trpc.chat.setToolEnabled.useMutation({
+    onSuccess: () => utils.chat.listToolSettings.invalidate(),
+  });
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-baseline justify-between mb-2">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            Tools
+          </h1>
+          <Link
+            href="/chat"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Back to chat
+          </Link>
+        </div>
+        <p className="mb-6 text-sm text-gray-500 dark:text-gray-400">
+          Tools that are off aren&apos;t offered to the assistant here or to MCP
+          clients like ChatGPT.
+        </p>
+
+        {setToolEnabledMutation.error && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {setToolEnabledMutation.error.message}
+          </p>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-y border-gray-200 dark:border-gray-700">
+            {tools?.map((tool) => (
+              <li key={tool.name} className="py-3">
+                <label className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={tool.enabled && !tool.deniedReason}
+                    disabled={
+                      !!tool.deniedReason || setToolEnabledMutation.isPending
+                    }
+                    onChange={(e) =>
+                      setToolEnabledMutation.mutate({
+                        toolName: tool.name,
+                        enabled: e.target.checked,
+                      })
+                    }
+                    className="mt-1"
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="text-sm text-gray-900 dark:text-gray-100">
+                      {tool.title}{" "}
+                      <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                        {tool.name}
+                      </span>
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {tool.description}
+                    </span>
+                    {tool.deniedReason && (
+                      <span className="block text-xs text-amber-600 dark:text-amber-400">
+                        Unavailable: {tool.deniedReason}
+                      </span>
+                    )}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import {
+  withAdminContext,
+  devUsage,
+  withUserContext,
+  type StoredUsage,
+} from "../../server/db";
+import { eq, and, gte, lt, sql } from "drizzle-orm";
+import type { LLMUsage } from "./llm.service";
+import { calculateCost } from "./pricing.registry";
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+// Aggregates shared by the usage queries
+const usageTotalsColumns = {
+  requests: sql<number>`count(*)`.mapWith(Number),
+  promptTokens:
+    sql<number>`coalesce(sum(${devUsage.prompt_tokens}), 0)`.mapWith(Number),
+  completionTokens:
+    sql<number>`coalesce(sum(${devUsage.completion_tokens}), 0)`.mapWith(
+      Number
+    ),
+  costUsd: sql<number>`coalesce(sum(${devUsage.cost_usd}), 0)`.mapWith(Number),
+};
+
+/**
+ * Price the usage of an LLM request with the model price table
+ */
+export function toStoredUsage(usage: LLMUsage): StoredUsage {
+  return { ...usage, costUsd: calculateCost(usage) };
+}
+
+/**
+ * Record an LLM request in the usage ledger
+ * Failures are logged, not thrown, so accounting never fails a chat request
+ */
+export async function recordUsage(
+  userId: string,
+  usage: StoredUsage,
+  context: {
+    purpose: (typeof devUsage.$inferInsert)["purpose"];
+    sessionId?: string;
+    messageId?: string;
+  }
+): Promise<void> {
+  try {
+    await withUserContext(userId, async (tx) => {
+      await tx.insert(devUsage).values({
+        user_id: userId,
+        session_id: context.sessionId ?? null,
+        message_id: context.messageId ?? null,
+        purpose: context.purpose,
+        provider: usage.provider,
+        model: usage.model,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        cost_usd: usage.costUsd,
+      });
+    });
+  } catch (error) {
+    console.error("Error recording usage:", error);
+  }
+}
+
+/**
+ * Total usage of a session, including session naming and summaries
+ */
+export async function getSessionUsage(
+  userId: string,
+  sessionId: string
+): Promise<UsageTotals> {
+  return withUserContext(userId, async (tx) => {
+    const [totals] = await tx
+      .select(usageTotalsColumns)
+      .from(devUsage)
+      .where(
+        and(eq(devUsage.session_id, sessionId), eq(devUsage.user_id, userId))
+      );
+
+    return totals;
+  });
+}
+
+/**
+ * Total usage of a user across all sessions, including deleted ones
+ */
+export async function getUserUsage(userId: string): Promise<UsageTotals> {
+  return withUserContext(userId, async (tx) => {
+    const [totals] = await tx
+      .select(usageTotalsColumns)
+      .from(devUsage)
+      .where(eq(devUsage.user_id, userId));
+
+    return totals;
+  });
+}
+
+/**
+ * Spend per user and day, for admins
+ * Reads across users through the admin read policy (withAdminContext), so
+ * callers must have checked that the user is an admin
+ * @param from - Start of the range (inclusive)
+ * @param to - End of the range (exclusive)
+ */
+export async function getSpendReport(
+  from: Date,
+  to: Date
+): Promise<Array<UsageTotals & { userId: string; day: string }>> {
+  const day = sql<string>`to_char(${devUsage.created_at}, 'YYYY-MM-DD')`;
+
+  return withAdminContext(async (tx) => {
+    return tx
+      .select({
+        userId: devUsage.user_id,
+        day,
+        ...usageTotalsColumns,
+      })
+      .from(devUsage)
+      .where(and(gte(devUsage.created_at, from), lt(devUsage.created_at, to)))
+      .groupBy(devUsage.user_id, day)
+      .orderBy(day, devUsage.user_id);
+  });
+}
@@ -2,7 +2,39 @@ import { baseURL } from "@/baseUrl";
 import { createMcpHandler, withMcpAuth } from "mcp-handler";
 import { verifyClerkToken } from "@clerk/mcp-tools/next";
 import { auth } from "@clerk/nextjs/server";
-import { widgetRegistry, toolRegistry } from "./tools.registry";
+import {
+  ListToolsRequestSchema,
+  type Tool,
+  type ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  createToolContext,
+  getUserIdFromAuthInfo,
+  widgetRegistry,
+  toolRegistry,
+  type ToolDefinition,
+} from "./tools.registry";
+import {
+  getToolAccess,
+  getToolDenialReason,
+} from "@/server/services/tool-access.service";
+
+/**
+ * MCP annotations of a tool; clients confirm destructive calls themselves
+ */
+function getToolAnnotations(tool: ToolDefinition): ToolAnnotations | undefined {
+  return tool.requiresConfirmation ? { destructiveHint: true } : undefined;
+}
+
+/**
+ * Access of the user behind an MCP request, limited by the token's scopes
+ */
+async function getRequestToolAccess(authInfo?: AuthInfo) {
+  return getToolAccess(getUserIdFromAuthInfo(authInfo), authInfo?.scopes ?? []);
+}
 
 const getAppsSdkCompatibleHtml = async (baseUrl: string, path: string) => {
   const result = await fetch(`${baseUrl}${path}`);
@@ -12,8 +44,9 @@ const getAppsSdkCompatibleHtml = async (baseUrl: string, path: string) => {
 const handler = createMcpHandler(async (server) => {
   for (const widget of widgetRegistry) {
     const html = await getAppsSdkCompatibleHtml(baseURL, widget.path);
+    // Widget ids are unique (checked by the registry), so are resource names
     server.registerResource(
-      "todo-widget",
+      widget.id,
       widget.templateUri,
       {
         title: widget.title,
@@ -48,11 +81,53 @@ const handler = createMcpHandler(async (server) => {
         title: tool.title,
         description: tool.description,
         inputSchema: tool.inputSchema,
+        annotations: getToolAnnotations(tool),
         _meta: tool._meta,
       },
-      tool.handler
+      async (params, extra) => {
+        // Clients may call tools they weren't listed
+        const reason = getToolDenialReason(
+          tool,
+          await getRequestToolAccess(extra.authInfo)
+        );
+        if (reason) {
+          throw new Error(`Tool ${tool.name} is not available: ${reason}`);
+        }
+
+        // Handlers get the same context as in the chat sandbox
+        return tool.handler(
+          params,
+          createToolContext({
+            toolName: tool.name,
+            userId: getUserIdFromAuthInfo(extra.authInfo),
+            surface: "mcp",
+            sessionId: extra.sessionId,
+            signal: extra.signal,
+          })
+        );
+      }
     );
   }
+
+  // mcp-handler shares one server between users, so replace the SDK's tool
+  // list with one filtered by the caller's roles, scopes and tool settings
+  server.server.setRequestHandler(ListToolsRequestSchema, async (_, extra) => {
+    const access = await getRequestToolAccess(extra.authInfo);
+    return {
+      tools: toolRegistry
+        .filter((tool) => !getToolDenialReason(tool, access))
+        .map((tool) => ({
+          name: tool.name,
+          title: tool.title,
+          description: tool.description,
+          inputSchema: zodToJsonSchema(z.object(tool.inputSchema), {
+            strictUnions: true,
+          }) as Tool["inputSchema"],
+          annotations: getToolAnnotations(tool),
+          _meta: tool._meta,
+        })),
+    };
+  });
 });
 
 const authHandler = withMcpAuth(
@@ -0,0 +1,229 @@
+import { z, ZodRawShape } from "zod";
+import jwt from "jsonwebtoken";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { withUserContext, type Transaction } from "@/server/db";
+
+// Types and helpers shared by the tool modules (*.tool.ts) and the registry
+
+export interface ToolResult {
+  [x: string]: unknown;
+  content: CallToolResult["content"];
+  structuredContent?: Record<string, unknown>;
+  widgetId?: string;
+}
+
+// Where a tool is being called from: an MCP client (e.g. ChatGPT) or the
+// in-app chat sandbox
+export type ToolSurface = "mcp" | "chat";
+
+export interface ToolLogger {
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+// Everything a handler knows about the call, the same on both surfaces
+export interface ToolContext {
+  // The authenticated user; tools must act on this user, never on a user ID
+  // from their arguments
+  userId: string;
+  surface: ToolSurface;
+  // The chat session on the chat surface, the MCP session (if the transport
+  // has one) on the mcp surface
+  sessionId?: string;
+  // Aborted when the handler times out or the request is cancelled;
+  // handlers should stop work when it is
+  signal: AbortSignal;
+  logger: ToolLogger;
+  // Run queries in a transaction with the user's RLS context
+  withTransaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T>;
+}
+
+// Parameters of a tool's handler, as validated by its inputSchema
+export type ToolParams<Shape extends ZodRawShape> = z.infer<z.ZodObject<Shape>>;
+
+export interface ToolDefinition<Shape extends ZodRawShape = ZodRawShape> {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Shape;
+  // Method syntax, so tools with a specific schema fit in the registry
+  handler(params: ToolParams<Shape>, context: ToolContext): Promise<ToolResult>;
+  // Maximum time the handler may run in the chat sandbox (defaults to 60s)
+  timeoutMs?: number;
+  // The user needs one of these roles (Clerk publicMetadata.role)
+  requiredRoles?: string[];
+  // MCP clients need all of these OAuth scopes; not checked in the chat
+  // sandbox, where users call tools with their own session
+  requiredScopes?: string[];
+  // The chat sandbox asks the user to approve each call before it runs;
+  // MCP clients get the tool marked with destructiveHint
+  requiresConfirmation?: boolean;
+  _meta?: Record<string, unknown>;
+}
+
+export type ContentWidget = {
+  id: string;
+  title: string;
+  templateUri: string;
+  invoking: string;
+  invoked: string;
+  path: string;
+  description: string;
+  widgetDomain: string;
+};
+
+// A *.tool.ts module as listed in tools.generated.ts
+export interface ToolModule {
+  // Path from the project root, for error messages
+  path: string;
+  exports: Record<string, unknown>;
+}
+
+// Values created by defineTool/defineWidget, so the registry can tell them
+// apart from other exports of a tool module
+const definedTools = new WeakSet<object>();
+const definedWidgets = new WeakSet<object>();
+
+/**
+ * Declare a tool. Export the result from a *.tool.ts module to register it.
+ */
+export function defineTool<Shape extends ZodRawShape>(
+  tool: ToolDefinition<Shape>
+): ToolDefinition<Shape> {
+  definedTools.add(tool);
+  return tool;
+}
+
+/**
+ * Declare a widget. Export the result from a *.tool.ts module to register it
+ * as an MCP resource named after its id.
+ */
+export function defineWidget(widget: ContentWidget): ContentWidget {
+  definedWidgets.add(widget);
+  return widget;
+}
+
+export function isDefinedTool(value: unknown): value is ToolDefinition {
+  return typeof value === "object" && value !== null && definedTools.has(value);
+}
+
+export function isDefinedWidget(value: unknown): value is ContentWidget {
+  return (
+    typeof value === "object" && value !== null && definedWidgets.has(value)
+  );
+}
+
+/**
+ * Build the context a tool handler is called with
+ */
+export function createToolContext(options: {
+  toolName: string;
+  userId: string;
+  surface: ToolSurface;
+  sessionId?: string;
+  signal: AbortSignal;
+}): ToolContext {
+  const { toolName, userId, surface, sessionId, signal } = options;
+  const prefix = `[tool ${toolName} ${surface}]`;
+
+  return {
+    userId,
+    surface,
+    sessionId,
+    signal,
+    logger: {
+      info: (message, ...args) => console.log(prefix, message, ...args),
+      warn: (message, ...args) => console.warn(prefix, message, ...args),
+      error: (message, ...args) => console.error(prefix, message, ...args),
+    },
+    withTransaction: (callback) => withUserContext(userId, callback),
+  };
+}
+
+export const getJwtForUser = (userId: string) => {
+  // Wraps the userId in a secure JWT, with a 1d timeout
+  return jwt.sign({ userId }, process.env.JWT_SECRET!, {
+    expiresIn: "1d",
+  });
+};
+
+/**
+ * _meta showing a tool result in a widget. Pass the handler's context to give
+ * the widget a JWT for the user; without it only the static template fields
+ * are set (for the tool's own _meta).
+ */
+export function widgetMeta(
+  widget: ContentWidget,
+  context?: Pick<ToolContext, "userId">
+) {
+  return {
+    "openai/outputTemplate": widget.templateUri,
+    "openai/toolInvocation/invoking": widget.invoking,
+    "openai/toolInvocation/invoked": widget.invoked,
+    "openai/widgetAccessible": false,
+    "openai/resultCanProduceWidget": true,
+    userJwt: context ? getJwtForUser(context.userId) : undefined,
+    path: widget.path,
+  } as const;
+}
+
+// Fields of widgetMeta that describe the widget rather than the caller
+const WIDGET_META_KEYS = [
+  "openai/outputTemplate",
+  "openai/toolInvocation/invoking",
+  "openai/toolInvocation/invoked",
+  "openai/widgetAccessible",
+  "openai/resultCanProduceWidget",
+  "path",
+] as const;
+
+/**
+ * The widget's template and path fields of a tool result's _meta, without
+ * the user's JWT, so it can be stored and shown to others
+ */
+export function getPublicWidgetMeta(
+  meta: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    WIDGET_META_KEYS.filter((key) => key in meta).map((key) => [key, meta[key]])
+  );
+}
+
+/**
+ * A stored message's structured_content with only the public widget fields
+ * left in its _meta; messages saved before the JWT was dropped still have it
+ */
+export function getPublicStructuredContent(
+  structuredContent: unknown
+): unknown {
+  if (
+    !structuredContent ||
+    typeof structuredContent !== "object" ||
+    !("_meta" in structuredContent)
+  ) {
+    return structuredContent;
+  }
+
+  const { _meta, ...content } = structuredContent as Record<string, unknown>;
+  return _meta && typeof _meta === "object"
+    ? {
+        ...content,
+        _meta: getPublicWidgetMeta(_meta as Record<string, unknown>),
+      }
+    : content;
+}
+
+/**
+ * The authenticated user of an MCP request
+ * @throws if the request isn't authenticated
+ */
+export function getUserIdFromAuthInfo(authInfo?: {
+  extra?: Record<string, unknown>;
+}): string {
+  const userId = authInfo?.extra?.userId;
+  if (typeof userId !== "string" || !userId) {
+    throw new Error("This tool requires an authenticated user");
+  }
+  return userId;
+}
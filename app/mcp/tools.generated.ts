@@ -0,0 +1,10 @@
+// Generated by scripts/generate-tool-registry.mjs - do not edit.
+// Run `npm run generate:tools` after adding or removing a *.tool.ts file.
+import type { ToolModule } from "./tool.utils";
+import * as toolModule0 from "@/app/chat/memories/memory.tool";
+import * as toolModule1 from "@/app/todos/todo.tool";
+
+export const toolModules: ToolModule[] = [
+  { path: "app/chat/memories/memory.tool.ts", exports: toolModule0 },
+  { path: "app/todos/todo.tool.ts", exports: toolModule1 },
+];
@@ -1,103 +1,64 @@
-import { z, ZodRawShape } from "zod";
-import jwt from "jsonwebtoken";
+import {
+  isDefinedTool,
+  isDefinedWidget,
+  type ContentWidget,
+  type ToolDefinition,
+  type ToolModule,
+} from "./tool.utils";
+import { toolModules } from "./tools.generated";
 
-export interface ToolResult {
-  [x: string]: unknown;
-  content: {
-    type: "text";
-    text: string;
-  }[];
-  structuredContent?: Record<string, unknown>;
-  widgetId?: string;
-}
+export * from "./tool.utils";
 
-export interface ToolDefinition {
-  name: string;
-  title: string;
-  description: string;
-  inputSchema: ZodRawShape;
-  handler: (params: any, authInfo: any) => Promise<ToolResult>;
-  _meta?: Record<string, unknown>;
-}
+/**
+ * Collect the tools and widgets exported by the *.tool.ts modules
+ * @throws if two tools share a name or two widgets share an id or template,
+ * naming the modules involved
+ */
+function collectRegistry(modules: ToolModule[]) {
+  const tools = new Map<string, { tool: ToolDefinition; path: string }>();
+  const widgets = new Map<string, { widget: ContentWidget; path: string }>();
+  const templateUris = new Map<string, string>();
 
-export type ContentWidget = {
-  id: string;
-  title: string;
-  templateUri: string;
-  invoking: string;
-  invoked: string;
-  path: string;
-  description: string;
-  widgetDomain: string;
-};
+  for (const { path, exports } of modules) {
+    for (const value of Object.values(exports)) {
+      if (isDefinedTool(value)) {
+        const existing = tools.get(value.name);
+        // The same tool exported twice (e.g. re-exported) isn't a clash
+        if (existing?.tool === value) continue;
+        if (existing) {
+          throw new Error(
+            `Duplicate tool name "${value.name}" in ${existing.path} and ${path}`
+          );
+        }
+        tools.set(value.name, { tool: value, path });
+      }
 
-export const getJwtFromAuthInfo = (authInfo: {
-  extra: Record<string, unknown>;
-}) => {
-  // Wraps the userId in a secure JWT, with a 1d timeout
-  return jwt.sign({ userId: authInfo.extra.userId }, process.env.JWT_SECRET!, {
-    expiresIn: "1d",
-  });
-};
+      if (isDefinedWidget(value)) {
+        const existing = widgets.get(value.id);
+        if (existing?.widget === value) continue;
+        if (existing) {
+          throw new Error(
+            `Duplicate widget id "${value.id}" in ${existing.path} and ${path}`
+          );
+        }
+        const existingTemplate = templateUris.get(value.templateUri);
+        if (existingTemplate) {
+          throw new Error(
+            `Duplicate widget templateUri "${value.templateUri}" in ${existingTemplate} and ${path}`
+          );
+        }
+        widgets.set(value.id, { widget: value, path });
+        templateUris.set(value.templateUri, path);
+      }
+    }
+  }
 
-export function widgetMeta(
-  widget: ContentWidget,
-  authInfo?: { token: string; extra: Record<string, unknown> }
-) {
   return {
-    "openai/outputTemplate": widget.templateUri,
-    "openai/toolInvocation/invoking": widget.invoking,
-    "openai/toolInvocation/invoked": widget.invoked,
-    "openai/widgetAccessible": false,
-    "openai/resultCanProduceWidget": true,
-    authInfo: authInfo,
-    userJwt: authInfo ? getJwtFromAuthInfo(authInfo) : undefined,
-    path: widget.path,
-  } as const;
+    toolRegistry: [...tools.values()].map(({ tool }) => tool),
+    widgetRegistry: [...widgets.values()].map(({ widget }) => widget),
+  };
 }
 
-// Example: Todo widget (for reference - see app/todos/page.tsx for the full implementation)
-// const todoWidget: ContentWidget = {
-//   id: "todo_widget",
-//   title: "Todo List",
-//   templateUri: "ui://widget/todo-template.html?v=" + new Date().getTime(),
-//   invoking: "Loading todo list...",
-//   invoked: "Todo list ready",
-//   path: "/todos",
-//   description: "Manage your daily todos and standup",
-//   widgetDomain: "https://nextjs.org/docs",
-// };
-
-// Example: Todo tool (for reference)
-// const todoTool: ToolDefinition = {
-//   name: "show_todos",
-//   title: "Show Todos",
-//   description: "Display the user's todo list",
-//   inputSchema: {},
-//   _meta: widgetMeta(todoWidget),
-//   handler: async (_, { authInfo }) => {
-//     return {
-//       content: [
-//         {
-//           type: "text",
-//           text: "Here's your todo list",
-//         },
-//       ],
-//       _meta: widgetMeta(
-//         todoWidget,
-//         authInfo as { token: string; extra: Record<string, unknown> }
-//       ),
-//     };
-//   },
-// };
-
-// Register your tools and widgets here
-export const toolRegistry: ToolDefinition[] = [
-  // Add your tools here
-  // Example: todoTool,
-];
-
-export const widgetRegistry: ContentWidget[] = [
-  // Add your widgets here
-  // Example: todoWidget,
-];
+// Tools and widgets are declared with defineTool/defineWidget in *.tool.ts
+// files; scripts/generate-tool-registry.mjs lists those in tools.generated.ts
+export const { toolRegistry, widgetRegistry } = collectRegistry(toolModules);
@@ -0,0 +1,241 @@
+import { z } from "zod";
+import {
+  defineTool,
+  defineWidget,
+  widgetMeta,
+  type ToolContext,
+  type ToolResult,
+} from "@/app/mcp/tool.utils";
+import {
+  getTodayStandup,
+  addTodo,
+  updateTodo,
+  deleteTodo,
+  organizeTodos,
+} from "@/server/services/todo.service";
+import type { Todo } from "@/server/db/schema";
+
+// Tools for the daily standup and its todos, shown in the /todos widget
+// (app/todos/page.tsx)
+
+const todoStatuses = [
+  "pending",
+  "in_progress",
+  "completed",
+  "cancelled",
+] as const;
+
+export const todoWidget = defineWidget({
+  id: "todo_widget",
+  title: "Todo List",
+  // The version busts ChatGPT's template cache on every deploy
+  templateUri: "ui://widget/todo-template.html?v=" + new Date().getTime(),
+  invoking: "Loading todo list...",
+  invoked: "Todo list ready",
+  path: "/todos",
+  description: "Manage your daily todos and standup",
+  widgetDomain: "https://nextjs.org/docs",
+});
+
+/**
+ * Render todos as a nested list the model can refer back to by ID
+ */
+function formatTodos(todos: Todo[], parentId: string | null = null, depth = 0) {
+  const lines: string[] = [];
+  // Todos whose parent isn't in the list are shown at the top level
+  const ids = new Set(todos.map((todo) => todo.id));
+  const children = todos.filter((todo) =>
+    parentId
+      ? todo.parent_todo_id === parentId
+      : !todo.parent_todo_id || !ids.has(todo.parent_todo_id)
+  );
+
+  for (const todo of children) {
+    lines.push(
+      `${"  ".repeat(depth)}- [${todo.status}] ${todo.text} (id: ${todo.id})`
+    );
+    lines.push(...formatTodos(todos, todo.id, depth + 1));
+  }
+  return lines;
+}
+
+/**
+ * Tool result showing today's standup in the widget, with the todos as text
+ * for the model
+ */
+async function standupResult(
+  context: ToolContext,
+  message: string
+): Promise<ToolResult> {
+  const { standup, todos } = await getTodayStandup(context.userId);
+  const todoLines = formatTodos(todos);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: [
+          message,
+          todoLines.length > 0
+            ? `Today's todos:\n${todoLines.join("\n")}`
+            : "There are no todos today.",
+        ].join("\n\n"),
+      },
+    ],
+    structuredContent: {
+      standupId: standup.id,
+      date: standup.date,
+      todos: todos.map((todo) => ({
+        id: todo.id,
+        text: todo.text,
+        status: todo.status,
+        parentTodoId: todo.parent_todo_id,
+      })),
+    },
+    _meta: widgetMeta(todoWidget, context),
+  };
+}
+
+export const showStandupTool = defineTool({
+  name: "show_standup",
+  title: "Show Standup",
+  description:
+    "Show today's standup with the user's todos. Unfinished todos from the last standup are carried over.",
+  inputSchema: {},
+  _meta: widgetMeta(todoWidget),
+  handler: async (_, context) => {
+    return standupResult(context, "Here is today's standup.");
+  },
+});
+
+export const addTodosTool = defineTool({
+  name: "add_todos",
+  title: "Add Todos",
+  description: "Add one or more todos to today's standup.",
+  inputSchema: {
+    todos: z
+      .array(z.string().trim().min(1).max(500))
+      .min(1)
+      .max(20)
+      .describe("Text of each todo, one short task per entry"),
+    parentTodoId: z
+      .string()
+      .optional()
+      .describe("ID of an existing todo to add these as subtasks of"),
+  },
+  _meta: widgetMeta(todoWidget),
+  handler: async ({ todos, parentTodoId }, context) => {
+    await addTodo(context.userId, { text: todos, parentTodoId });
+    return standupResult(
+      context,
+      `Added ${todos.length} todo${todos.length === 1 ? "" : "s"}.`
+    );
+  },
+});
+
+export const changeTodoStatusTool = defineTool({
+  name: "change_todo_status",
+  title: "Change Todo Status",
+  description:
+    "Mark a todo as pending, in progress, completed or cancelled. Use the todo ID from show_standup.",
+  inputSchema: {
+    todoId: z.string().describe("ID of the todo"),
+    status: z.enum(todoStatuses),
+  },
+  _meta: widgetMeta(todoWidget),
+  handler: async ({ todoId, status }, context) => {
+    const todo = await updateTodo(context.userId, { id: todoId, status });
+    return standupResult(context, `Marked "${todo.text}" as ${status}.`);
+  },
+});
+
+export const deleteTodoTool = defineTool({
+  name: "delete_todo",
+  title: "Delete Todo",
+  description:
+    "Delete a todo; its subtasks move to the top level. Use the todo ID from show_standup, and prefer cancelling todos the user may want to keep track of.",
+  inputSchema: {
+    todoId: z.string().describe("ID of the todo"),
+  },
+  requiresConfirmation: true,
+  _meta: widgetMeta(todoWidget),
+  handler: async ({ todoId }, context) => {
+    const todo = await deleteTodo(context.userId, todoId);
+    return standupResult(context, `Deleted "${todo.text}".`);
+  },
+});
+
+export const organizeTodosTool = defineTool({
+  name: "organize_todos",
+  title: "Organize Todos",
+  description:
+    "Nest today's todos under other todos, matching them by their exact text.",
+  inputSchema: {
+    relationships: z
+      .array(
+        z.object({
+          childTodoText: z.string().describe("Exact text of the subtask"),
+          parentTodoText: z
+            .string()
+            .describe("Exact text of the todo to nest it under"),
+        })
+      )
+      .min(1)
+      .max(50),
+  },
+  _meta: widgetMeta(todoWidget),
+  handler: async ({ relationships }, context) => {
+    const result = await organizeTodos(context.userId, { relationships });
+    return standupResult(
+      context,
+      [
+        `Nested ${result.updatedTodos.length} todo${
+          result.updatedTodos.length === 1 ? "" : "s"
+        }.`,
+        ...result.errors,
+      ].join("\n")
+    );
+  },
+});
+
+export const summarizeYesterdayTool = defineTool({
+  name: "summarize_yesterday",
+  title: "Summarize Yesterday",
+  description:
+    "Get the todos of the user's previous standup grouped by status, to summarize what was done and what is still open.",
+  inputSchema: {},
+  handler: async (_, { userId }) => {
+    const { previousStandup, previousTodos } = await getTodayStandup(userId);
+
+    if (!previousStandup) {
+      return {
+        content: [{ type: "text", text: "There is no previous standup." }],
+      };
+    }
+
+    const date = new Date(previousStandup.date).toDateString();
+    const sections = todoStatuses.map((status) => {
+      const texts = (previousTodos as Todo[])
+        .filter((todo) => todo.status === status)
+        .map((todo) => `- ${todo.text}`);
+      return `${status} (${texts.length}):\n${texts.join("\n") || "- none"}`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Standup of ${date}:\n\n${sections.join("\n\n")}`,
+        },
+      ],
+      structuredContent: {
+        date: previousStandup.date,
+        todos: (previousTodos as Todo[]).map((todo) => ({
+          id: todo.id,
+          text: todo.text,
+          status: todo.status,
+        })),
+      },
+    };
+  },
+});
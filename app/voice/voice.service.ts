@@ -4,11 +4,11 @@ import { Readable } from "stream";
 /**
  * Transcribe audio data using Deepgram API
  * @param audioData - Base64 encoded audio string or Buffer
- * @returns Transcribed text string
+ * @returns Transcribed text and the audio's duration in seconds
  */
 export async function transcribeAudio(
   audioData: string | Buffer
-): Promise<string> {
+): Promise<{ transcript: string; durationSeconds: number }> {
   const apiKey = process.env.DEEPGRAM_API_KEY;
 
   if (!apiKey) {
@@ -52,7 +52,7 @@ export async function transcribeAudio(
     const transcript =
       result.results.channels[0].alternatives[0].transcript || "";
 
-    return transcript;
+    return { transcript, durationSeconds: result.metadata?.duration ?? 0 };
   } catch (error) {
     console.error("Error transcribing audio:", error);
     throw error;
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { SignedIn, SignedOut, SignInButton, UserButton } from "@clerk/nextjs";
 import { useClerkReady } from "@/components/ConditionalClerkProvider";
 
@@ -10,6 +10,32 @@ interface ChatSession {
   name: string;
   lastMessageTime: Date;
   messages: unknown[];
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
+}
+
+// Which sessions the list shows: all, one folder's, or the archived ones
+export interface SessionFilter {
+  archived?: boolean;
+  folder?: string;
+}
+
+// Changes made from a session's menu, as accepted by chat.organizeSession
+export interface SessionOrganization {
+  name?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
+}
+
+// A message matching the search, as returned by chat.search
+interface SearchResult {
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  snippet: Array<{ text: string; highlight: boolean }>;
+  match: "text" | "semantic";
 }
 
 interface ChatSidebarProps {
@@ -18,9 +44,32 @@ interface ChatSidebarProps {
   onSelectSession: (id: string) => void;
   onNewChat: () => void;
   onDeleteSession: (id: string) => void;
+  onExportSession: (id: string, format: "json" | "markdown") => void;
+  // Called with a JSON file exported by onExportSession
+  onImportSession: (file: File) => void;
+  // Create a read-only link to the session, or revoke all of its links
+  onShareSession: (id: string) => void;
+  onStopSharing: (id: string) => void;
+  // Rename, pin, archive or move a session to a folder
+  onOrganizeSession: (id: string, changes: SessionOrganization) => void;
+  filter: SessionFilter;
+  onFilterChange: (filter: SessionFilter) => void;
+  folders?: Array<{ name: string; count: number }>;
+  // The sessions list is paginated
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore: () => void;
   isLoading?: boolean;
+  // Called with the search query after typing pauses ("" when cleared)
+  onSearch: (query: string) => void;
+  onSelectSearchResult: (result: SearchResult) => void;
+  searchResults?: SearchResult[];
+  isSearching?: boolean;
 }
 
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
 // Sidebar component
 export function ChatSidebar({
   sessions,
@@ -28,10 +77,65 @@ export function ChatSidebar({
   onSelectSession,
   onNewChat,
   onDeleteSession,
+  onExportSession,
+  onImportSession,
+  onShareSession,
+  onStopSharing,
+  onOrganizeSession,
+  filter,
+  onFilterChange,
+  folders,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
   isLoading,
+  onSearch,
+  onSelectSearchResult,
+  searchResults,
+  isSearching,
 }: ChatSidebarProps) {
   const [isOpen, setIsOpen] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  // Session whose menu (export, delete) is open
+  const [menuSessionId, setMenuSessionId] = useState<string | null>(null);
+  // Session being renamed and its draft name
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const importInputRef = useRef<HTMLInputElement>(null);
   const isClerkReady = useClerkReady();
+  const trimmedQuery = searchQuery.trim();
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => onSearch(trimmedQuery),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [trimmedQuery, onSearch]);
+
+  const saveRename = () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    const session = sessions.find((s) => s.id === renaming.id);
+    if (name && name !== session?.name) {
+      onOrganizeSession(renaming.id, { name });
+    }
+    setRenaming(null);
+  };
+
+  const moveToFolder = (session: ChatSession) => {
+    const folder = window.prompt(
+      "Move to folder (leave empty to remove it from its folder):",
+      session.folder ?? ""
+    );
+    // Cancelled
+    if (folder === null) return;
+    onOrganizeSession(session.id, { folder: folder.trim() || null });
+  };
+
+  const menuItemClassName =
+    "w-full text-left px-3 py-1.5 text-gray-300 hover:bg-gray-700 hover:text-white transition-colors";
 
   return (
     <>
@@ -52,12 +156,62 @@ export function ChatSidebar({
         <div className="flex flex-col h-full overflow-x-hidden">
           {/* Header */}
           <div className="p-3 border-b border-gray-800 dark:border-gray-800">
-            <button
-              onClick={onNewChat}
-              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg border border-gray-700 dark:border-gray-700 hover:bg-gray-800 dark:hover:bg-gray-800 transition-colors text-sm text-white"
-            >
+            <div className="flex gap-2">
+              <button
+                onClick={onNewChat}
+                className="flex-1 flex items-center gap-3 px-3 py-2.5 rounded-lg border border-gray-700 dark:border-gray-700 hover:bg-gray-800 dark:hover:bg-gray-800 transition-colors text-sm text-white"
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 4v16m8-8H4"
+                  />
+                </svg>
+                New chat
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="flex-shrink-0 px-3 rounded-lg border border-gray-700 dark:border-gray-700 hover:bg-gray-800 dark:hover:bg-gray-800 transition-colors text-gray-300 hover:text-white"
+                title="Import a chat exported as JSON"
+                aria-label="Import chat"
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                  />
+                </svg>
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportSession(file);
+                  // Allow importing the same file again
+                  e.target.value = "";
+                }}
+              />
+            </div>
+            <div className="relative mt-2">
               <svg
-                className="w-5 h-5"
+                className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -66,108 +220,355 @@ export function ChatSidebar({
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M12 4v16m8-8H4"
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
                 />
               </svg>
-              New chat
-            </button>
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setSearchQuery("");
+                }}
+                placeholder="Search chats"
+                aria-label="Search chats"
+                className="w-full pl-9 pr-3 py-2 rounded-lg bg-gray-800 dark:bg-gray-900 border border-gray-700 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-gray-500"
+              />
+            </div>
+            {!trimmedQuery && (
+              <select
+                value={
+                  filter.archived
+                    ? "archived"
+                    : filter.folder !== undefined
+                    ? `folder:${filter.folder}`
+                    : ""
+                }
+                onChange={(e) => {
+                  const value = e.target.value;
+                  onFilterChange(
+                    value === "archived"
+                      ? { archived: true }
+                      : value.startsWith("folder:")
+                      ? { folder: value.slice("folder:".length) }
+                      : {}
+                  );
+                }}
+                aria-label="Show chats"
+                className="w-full mt-2 px-2 py-1.5 rounded-lg bg-gray-800 dark:bg-gray-900 border border-gray-700 text-sm text-gray-300 focus:outline-none focus:ring-1 focus:ring-gray-500"
+              >
+                <option value="">All chats</option>
+                {folders?.map((folder) => (
+                  <option key={folder.name} value={`folder:${folder.name}`}>
+                    {folder.name} ({folder.count})
+                  </option>
+                ))}
+                <option value="archived">Archived</option>
+              </select>
+            )}
           </div>
 
-          {/* Sessions list */}
-          <div className="flex-1 overflow-y-auto overflow-x-hidden p-2">
-            {isLoading ? (
-              <div className="flex items-center justify-center py-8">
-                <div className="flex gap-1">
-                  <div
-                    className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                    style={{ animationDelay: "0ms" }}
-                  />
-                  <div
-                    className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                    style={{ animationDelay: "150ms" }}
-                  />
-                  <div
-                    className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
-                    style={{ animationDelay: "300ms" }}
-                  />
+          {/* Search results, replacing the sessions list while searching */}
+          {trimmedQuery ? (
+            <div className="flex-1 overflow-y-auto overflow-x-hidden p-2">
+              {isSearching || !searchResults ? (
+                <p className="text-center py-8 text-sm text-gray-400 dark:text-gray-500">
+                  Searching...
+                </p>
+              ) : searchResults.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-400 dark:text-gray-500">
+                  No matching messages
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {searchResults.map((result) => (
+                    <button
+                      key={result.messageId}
+                      onClick={() => {
+                        onSelectSearchResult(result);
+                        setIsOpen(false);
+                      }}
+                      className="w-full text-left px-3 py-2.5 rounded-lg text-sm text-gray-300 dark:text-gray-400 hover:bg-gray-800/50 hover:text-white transition-colors"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">
+                          {result.sessionName}
+                        </span>
+                        {result.match === "semantic" && (
+                          <span
+                            className="flex-shrink-0 text-[10px] uppercase tracking-wide text-gray-500"
+                            title="Similar in meaning, without matching words"
+                          >
+                            Related
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-0.5 line-clamp-3 break-words">
+                        {result.snippet.map((part, index) =>
+                          part.highlight ? (
+                            <mark
+                              key={index}
+                              className="bg-yellow-500/30 text-gray-200 rounded-sm"
+                            >
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={index}>{part.text}</span>
+                          )
+                        )}
+                      </div>
+                    </button>
+                  ))}
                 </div>
-              </div>
-            ) : (
-              <div className="space-y-1">
-                {sessions.length === 0 ? (
-                  <div className="text-center py-8">
-                    <p className="text-sm text-gray-400 dark:text-gray-500">
-                      No conversations yet
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-600 mt-1">
-                      Start a new chat to begin
-                    </p>
-                  </div>
-                ) : (
-                  sessions.map((session) => (
+              )}
+            </div>
+          ) : (
+            /* Sessions list */
+            <div className="flex-1 overflow-y-auto overflow-x-hidden p-2">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="flex gap-1">
                     <div
-                      key={session.id}
-                      className={`group relative rounded-lg text-sm transition-colors ${
-                        session.id === currentSessionId
-                          ? "bg-gray-800 dark:bg-gray-800"
-                          : "hover:bg-gray-800/50 dark:hover:bg-gray-800/50"
-                      }`}
-                    >
-                      <button
-                        onClick={() => {
-                          onSelectSession(session.id);
-                          setIsOpen(false);
-                        }}
-                        className={`w-full text-left px-3 py-2.5 rounded-lg transition-colors ${
-                          session.id === currentSessionId
-                            ? "text-white"
-                            : "text-gray-300 dark:text-gray-400 hover:text-white dark:hover:text-gray-300"
-                        }`}
-                      >
-                        <div className="font-medium truncate pr-8">
-                          {session.name}
-                        </div>
-                        <div className="text-xs text-gray-500 dark:text-gray-500 mt-0.5">
-                          {session.lastMessageTime.toLocaleDateString([], {
-                            month: "short",
-                            day: "numeric",
-                            hour: "numeric",
-                            minute: "2-digit",
-                          })}
-                        </div>
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDeleteSession(session.id);
-                        }}
-                        className={`absolute top-2 right-2 opacity-0 group-hover:opacity-100 p-2 rounded transition-opacity z-10 ${
+                      className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                      style={{ animationDelay: "0ms" }}
+                    />
+                    <div
+                      className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                      style={{ animationDelay: "150ms" }}
+                    />
+                    <div
+                      className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"
+                      style={{ animationDelay: "300ms" }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {sessions.length === 0 ? (
+                    <div className="text-center py-8">
+                      <p className="text-sm text-gray-400 dark:text-gray-500">
+                        {filter.archived
+                          ? "No archived conversations"
+                          : filter.folder !== undefined
+                          ? "No conversations in this folder"
+                          : "No conversations yet"}
+                      </p>
+                      {!filter.archived && filter.folder === undefined && (
+                        <p className="text-xs text-gray-500 dark:text-gray-600 mt-1">
+                          Start a new chat to begin
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    sessions.map((session) => (
+                      <div
+                        key={session.id}
+                        className={`group relative rounded-lg text-sm transition-colors ${
                           session.id === currentSessionId
-                            ? "text-gray-400 hover:text-white hover:bg-gray-700/80 bg-gray-800/80"
-                            : "text-gray-500 hover:text-gray-300 hover:bg-gray-700/80 bg-gray-800/50"
+                            ? "bg-gray-800 dark:bg-gray-800"
+                            : "hover:bg-gray-800/50 dark:hover:bg-gray-800/50"
                         }`}
-                        title="Delete session"
                       >
-                        <svg
-                          className="w-4 h-4"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
+                        {renaming?.id === session.id ? (
+                          <div className="px-3 py-2">
+                            <input
+                              value={renaming.name}
+                              onChange={(e) =>
+                                setRenaming({
+                                  id: session.id,
+                                  name: e.target.value,
+                                })
+                              }
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") saveRename();
+                                if (e.key === "Escape") setRenaming(null);
+                              }}
+                              onBlur={saveRename}
+                              autoFocus
+                              maxLength={200}
+                              aria-label="Chat name"
+                              className="w-full px-2 py-1 rounded bg-gray-800 border border-gray-600 text-sm text-white focus:outline-none focus:ring-1 focus:ring-gray-500"
+                            />
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              onSelectSession(session.id);
+                              setIsOpen(false);
+                            }}
+                            className={`w-full text-left px-3 py-2.5 rounded-lg transition-colors ${
+                              session.id === currentSessionId
+                                ? "text-white"
+                                : "text-gray-300 dark:text-gray-400 hover:text-white dark:hover:text-gray-300"
+                            }`}
+                          >
+                            <div className="flex items-center gap-1.5 font-medium pr-8">
+                              {session.pinned && (
+                                <svg
+                                  className="w-3 h-3 flex-shrink-0 text-gray-400"
+                                  fill="currentColor"
+                                  viewBox="0 0 24 24"
+                                  aria-label="Pinned"
+                                >
+                                  <path d="M16 3a1 1 0 01.707 1.707L15 6.414V11l2.707 2.707A1 1 0 0117 15.414H13V21a1 1 0 11-2 0v-5.586H7a1 1 0 01-.707-1.707L9 11V6.414L7.293 4.707A1 1 0 018 3h8z" />
+                                </svg>
+                              )}
+                              <span className="truncate">{session.name}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-500 mt-0.5 truncate">
+                              {session.lastMessageTime.toLocaleDateString([], {
+                                month: "short",
+                                day: "numeric",
+                                hour: "numeric",
+                                minute: "2-digit",
+                              })}
+                              {session.folder && ` · ${session.folder}`}
+                            </div>
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setMenuSessionId(
+                              menuSessionId === session.id ? null : session.id
+                            );
+                          }}
+                          className={`absolute top-2 right-2 p-2 rounded transition-opacity z-10 ${
+                            menuSessionId === session.id
+                              ? "opacity-100"
+                              : "opacity-0 group-hover:opacity-100"
+                          } ${
+                            session.id === currentSessionId
+                              ? "text-gray-400 hover:text-white hover:bg-gray-700/80 bg-gray-800/80"
+                              : "text-gray-500 hover:text-gray-300 hover:bg-gray-700/80 bg-gray-800/50"
+                          }`}
+                          title="Session options"
+                          aria-label="Session options"
                         >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                          />
-                        </svg>
-                      </button>
-                    </div>
-                  ))
-                )}
-              </div>
-            )}
-          </div>
+                          <svg
+                            className="w-4 h-4"
+                            fill="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path d="M6 10a2 2 0 100 4 2 2 0 000-4zm6 0a2 2 0 100 4 2 2 0 000-4zm6 0a2 2 0 100 4 2 2 0 000-4z" />
+                          </svg>
+                        </button>
+                        {menuSessionId === session.id && (
+                          <>
+                            {/* Closes the menu when clicking elsewhere */}
+                            <div
+                              className="fixed inset-0 z-20"
+                              onClick={() => setMenuSessionId(null)}
+                            />
+                            <div className="absolute right-2 top-11 z-30 w-44 py-1 rounded-lg border border-gray-700 bg-gray-800 shadow-lg text-sm">
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  setRenaming({
+                                    id: session.id,
+                                    name: session.name,
+                                  });
+                                }}
+                                className={menuItemClassName}
+                              >
+                                Rename
+                              </button>
+                              {!session.archived && (
+                                <button
+                                  onClick={() => {
+                                    setMenuSessionId(null);
+                                    onOrganizeSession(session.id, {
+                                      pinned: !session.pinned,
+                                    });
+                                  }}
+                                  className={menuItemClassName}
+                                >
+                                  {session.pinned ? "Unpin" : "Pin to top"}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  moveToFolder(session);
+                                }}
+                                className={menuItemClassName}
+                              >
+                                Move to folder…
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  onOrganizeSession(session.id, {
+                                    archived: !session.archived,
+                                  });
+                                }}
+                                className={menuItemClassName}
+                              >
+                                {session.archived ? "Unarchive" : "Archive"}
+                              </button>
+                              {(
+                                [
+                                  ["json", "Export as JSON"],
+                                  ["markdown", "Export as Markdown"],
+                                ] as const
+                              ).map(([format, label]) => (
+                                <button
+                                  key={format}
+                                  onClick={() => {
+                                    setMenuSessionId(null);
+                                    onExportSession(session.id, format);
+                                  }}
+                                  className={menuItemClassName}
+                                >
+                                  {label}
+                                </button>
+                              ))}
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  onShareSession(session.id);
+                                }}
+                                className={menuItemClassName}
+                              >
+                                Copy share link
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  onStopSharing(session.id);
+                                }}
+                                className={menuItemClassName}
+                              >
+                                Stop sharing
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setMenuSessionId(null);
+                                  onDeleteSession(session.id);
+                                }}
+                                className="w-full text-left px-3 py-1.5 text-red-400 hover:bg-gray-700 hover:text-red-300 transition-colors"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    ))
+                  )}
+                  {hasMore && (
+                    <button
+                      onClick={onLoadMore}
+                      disabled={isLoadingMore}
+                      className="w-full px-3 py-2 rounded-lg text-xs text-gray-400 hover:bg-gray-800/50 hover:text-white disabled:opacity-50 transition-colors"
+                    >
+                      {isLoadingMore ? "Loading..." : "Show more"}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* User profile section */}
           <div className="p-3 border-t border-gray-800 dark:border-gray-800">
@@ -0,0 +1,751 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { Components } from "react-markdown";
+import type { StoredMessageError, StoredUsage } from "@/server/db/schema";
+
+// A chat message as shown in the chat page and on shared sessions
+// A file sent with a message, served by /api/attachments/[id]
+export interface MessageAttachment {
+  id: string;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+}
+
+export interface Message {
+  id: string;
+  role: "user" | "assistant" | "system" | "context_reset";
+  content: string;
+  timestamp: Date;
+  structured_content?: {
+    _meta?: { path?: string; [key: string]: unknown };
+  } | null;
+  widget_id?: string | null;
+  status?: "complete" | "stopped" | "error";
+  error?: StoredMessageError | null;
+  usage?: StoredUsage | null;
+  parentId: string | null;
+  attachments?: MessageAttachment[];
+  // Set when there are other versions of this message, e.g. edits or
+  // regenerated responses; index is this version's position among them
+  branch?: { siblingIds: string[]; index: number };
+}
+
+// Markdown renderer using react-markdown
+function MarkdownRenderer({ content }: { content: string }) {
+  const components: Components = {
+    // Headings
+    h1: ({ ...props }) => (
+      <h1 className="text-2xl font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    h2: ({ ...props }) => (
+      <h2 className="text-xl font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    h3: ({ ...props }) => (
+      <h3 className="text-lg font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    h4: ({ ...props }) => (
+      <h4 className="text-base font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    h5: ({ ...props }) => (
+      <h5 className="text-sm font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    h6: ({ ...props }) => (
+      <h6 className="text-sm font-bold mb-2 mt-4 first:mt-0" {...props} />
+    ),
+    // Paragraphs
+    p: ({ ...props }) => (
+      <p
+        className="mb-2 last:mb-0 whitespace-pre-wrap break-words"
+        {...props}
+      />
+    ),
+    // Code blocks
+    pre: ({ ...props }) => (
+      <pre
+        className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg overflow-x-auto my-2"
+        {...props}
+      />
+    ),
+    code: (props) => {
+      const { className, children, ...rest } = props;
+      const match = /language-(\w+)/.exec(className || "");
+      const isInline = !match;
+      return isInline ? (
+        <code
+          className="bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded text-sm font-mono"
+          {...rest}
+        >
+          {children}
+        </code>
+      ) : (
+        <code className={`text-sm font-mono ${className || ""}`} {...rest}>
+          {children}
+        </code>
+      );
+    },
+    // Lists
+    ul: ({ ...props }) => (
+      <ul className="list-disc list-outside mb-2 space-y-1 ml-6" {...props} />
+    ),
+    ol: ({ ...props }) => (
+      <ol
+        className="list-decimal list-outside mb-2 space-y-1 ml-6"
+        {...props}
+      />
+    ),
+    li: ({ ...props }) => <li className="pl-2" {...props} />,
+    // Links
+    a: ({ ...props }) => (
+      <a
+        className="text-blue-600 dark:text-blue-400 hover:underline"
+        target="_blank"
+        rel="noopener noreferrer"
+        {...props}
+      />
+    ),
+    // Blockquotes
+    blockquote: ({ ...props }) => (
+      <blockquote
+        className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-2"
+        {...props}
+      />
+    ),
+    // Horizontal rule
+    hr: ({ ...props }) => (
+      <hr className="my-4 border-gray-300 dark:border-gray-700" {...props} />
+    ),
+    // Strong and emphasis
+    strong: ({ ...props }) => <strong className="font-semibold" {...props} />,
+    em: ({ ...props }) => <em className="italic" {...props} />,
+    // Tables (from remark-gfm)
+    table: ({ ...props }) => (
+      <div className="overflow-x-auto my-2">
+        <table
+          className="border-collapse border border-gray-300 dark:border-gray-700"
+          {...props}
+        />
+      </div>
+    ),
+    thead: ({ ...props }) => (
+      <thead className="bg-gray-100 dark:bg-gray-800" {...props} />
+    ),
+    tbody: ({ ...props }) => <tbody {...props} />,
+    tr: ({ ...props }) => <tr {...props} />,
+    th: ({ ...props }) => (
+      <th
+        className="border border-gray-300 dark:border-gray-700 px-4 py-2 font-semibold"
+        {...props}
+      />
+    ),
+    td: ({ ...props }) => (
+      <td
+        className="border border-gray-300 dark:border-gray-700 px-4 py-2"
+        {...props}
+      />
+    ),
+  };
+
+  return (
+    <Markdown remarkPlugins={[remarkGfm]} components={components}>
+      {content}
+    </Markdown>
+  );
+}
+
+// Format a token count and its cost, e.g. "1,234 tokens · $0.0012"
+export function formatUsage(tokens: number, costUsd: number | null): string {
+  const formatted = `${tokens.toLocaleString()} tokens`;
+  return costUsd === null ? formatted : `${formatted} · $${costUsd.toFixed(4)}`;
+}
+
+// Flips between the versions of a message, e.g. "< 2/3 >"
+function BranchSwitcher({
+  branch,
+  onSwitch,
+  disabled,
+}: {
+  branch: NonNullable<Message["branch"]>;
+  onSwitch: (messageId: string) => void;
+  disabled: boolean;
+}) {
+  const { siblingIds, index } = branch;
+  const buttonClassName =
+    "p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+  return (
+    <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+      <button
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className={buttonClassName}
+        title="Previous version"
+        aria-label="Previous version"
+      >
+        <svg
+          className="w-3 h-3"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 19l-7-7 7-7"
+          />
+        </svg>
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className={buttonClassName}
+        title="Next version"
+        aria-label="Next version"
+      >
+        <svg
+          className="w-3 h-3"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5l7 7-7 7"
+          />
+        </svg>
+      </button>
+    </span>
+  );
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Images as thumbnails, other files as download links
+function AttachmentList({ attachments }: { attachments: MessageAttachment[] }) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((attachment) =>
+        attachment.content_type.startsWith("image/") ? (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.filename}
+          >
+            <img
+              src={`/api/attachments/${attachment.id}`}
+              alt={attachment.filename}
+              className="h-32 max-w-xs rounded-lg border border-gray-200 dark:border-gray-700 object-cover"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}`}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <svg
+              className="w-4 h-4 flex-shrink-0"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+              />
+            </svg>
+            <span className="truncate max-w-[12rem]">
+              {attachment.filename}
+            </span>
+            <span className="text-xs text-gray-500">
+              {formatFileSize(attachment.size_bytes)}
+            </span>
+          </a>
+        )
+      )}
+    </div>
+  );
+}
+
+// Message component
+export function MessageBubble({
+  message,
+  messages,
+  onDelete,
+  onRedo,
+  onEdit,
+  onSwitchBranch,
+  isStreaming = false,
+  isHighlighted = false,
+  pinnedWidget,
+}: {
+  message: Message;
+  messages: Message[];
+  // Controls are only shown for the handlers given, so a message without
+  // handlers renders read-only (e.g. on a shared session page)
+  onDelete?: (messageId: string) => void;
+  onRedo?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  isStreaming?: boolean;
+  // Briefly outlined after jumping to the message, e.g. from search
+  isHighlighted?: boolean;
+  pinnedWidget: { messageId: string; mode: "pin" | "pinRight" } | null;
+}) {
+  const isUser = message.role === "user";
+  const isSystem = message.role === "system";
+  const [isCollapsed, setIsCollapsed] = useState(isSystem);
+  // Draft of an edited user message; null when not editing
+  const [editContent, setEditContent] = useState<string | null>(null);
+  const [iframeHeight, setIframeHeight] = useState<number | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+
+  // Cleanup ResizeObserver on unmount
+  useEffect(() => {
+    return () => {
+      if (resizeObserverRef.current) {
+        resizeObserverRef.current.disconnect();
+      }
+    };
+  }, []);
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`group relative flex gap-4 py-4 px-6 transition-shadow ${
+        isHighlighted ? "ring-2 ring-inset ring-yellow-400" : ""
+      } ${
+        isUser
+          ? "bg-white dark:bg-gray-900"
+          : isSystem
+          ? "bg-gray-100 dark:bg-gray-800/30"
+          : "bg-gray-50 dark:bg-gray-800/50"
+      }`}
+    >
+      <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
+        {isUser ? (
+          <svg
+            className="w-5 h-5 text-gray-600 dark:text-gray-300"
+            fill="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
+          </svg>
+        ) : isSystem ? (
+          <svg
+            className="w-5 h-5 text-gray-600 dark:text-gray-300"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+            />
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+            />
+          </svg>
+        ) : (
+          <svg
+            className="w-5 h-5 text-gray-600 dark:text-gray-300"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+            />
+          </svg>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between mb-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {isUser ? "You" : isSystem ? "System" : "Assistant"}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {message.timestamp.toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+            {message.usage && (
+              <span
+                className="text-xs text-gray-400 dark:text-gray-500"
+                title={`${message.usage.provider} / ${message.usage.model}: ${message.usage.promptTokens} prompt + ${message.usage.completionTokens} completion tokens`}
+              >
+                {formatUsage(
+                  message.usage.promptTokens + message.usage.completionTokens,
+                  message.usage.costUsd
+                )}
+              </span>
+            )}
+            {message.status === "stopped" && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                Stopped
+              </span>
+            )}
+            {message.branch && onSwitchBranch && (
+              <BranchSwitcher
+                branch={message.branch}
+                onSwitch={onSwitchBranch}
+                disabled={isStreaming}
+              />
+            )}
+          </div>
+          {/* Action buttons in top right */}
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {isUser && onEdit && !isStreaming && editContent === null && (
+              <button
+                onClick={() => {
+                  setEditContent(message.content);
+                  setIsCollapsed(false);
+                }}
+                className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                title="Edit message"
+                aria-label="Edit message"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+              </button>
+            )}
+            <button
+              onClick={() => setIsCollapsed(!isCollapsed)}
+              className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+              title={isCollapsed ? "Expand" : "Collapse"}
+              aria-label={isCollapsed ? "Expand message" : "Collapse message"}
+            >
+              <svg
+                className={`w-4 h-4 transition-transform ${
+                  isCollapsed ? "" : "rotate-180"
+                }`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 9l-7 7-7-7"
+                />
+              </svg>
+            </button>
+            {onDelete && (
+              <button
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      "Are you sure you want to delete this message? This action cannot be undone."
+                    )
+                  ) {
+                    onDelete(message.id);
+                  }
+                }}
+                className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                title="Delete message"
+                aria-label="Delete message"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            )}
+          </div>
+        </div>
+        {!isCollapsed && (
+          <>
+            {editContent !== null && onEdit ? (
+              // Saving sends the edited message as a new branch; the original
+              // stays available through the branch switcher
+              <div>
+                <textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  rows={Math.min(editContent.split("\n").length + 1, 12)}
+                  autoFocus
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 resize-y"
+                />
+                <div className="mt-2 flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditContent(null)}
+                    className="px-3 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => {
+                      onEdit(message.id, editContent.trim());
+                      setEditContent(null);
+                    }}
+                    disabled={
+                      isStreaming ||
+                      !editContent.trim() ||
+                      editContent.trim() === message.content
+                    }
+                    className="px-3 py-1.5 rounded-md text-sm bg-blue-600 dark:bg-blue-500 text-white hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Save & send
+                  </button>
+                </div>
+              </div>
+            ) : (
+              message.content && (
+                <div className="text-gray-800 dark:text-gray-200">
+                  <MarkdownRenderer content={message.content} />
+                </div>
+              )
+            )}
+            {!!message.attachments?.length && (
+              <AttachmentList attachments={message.attachments} />
+            )}
+            {/* Display iframe for widget messages - fixed on top/right if pinned, inline otherwise */}
+            {message.structured_content?._meta?.path && (
+              <div
+                className={`${
+                  pinnedWidget?.messageId === message.id
+                    ? pinnedWidget.mode === "pinRight"
+                      ? "mt-4 lg:fixed lg:top-0 lg:right-0 lg:w-1/4 lg:h-screen lg:z-50 lg:mt-0 lg:flex lg:flex-col"
+                      : "fixed top-0 left-1/2 transform -translate-x-1/2 w-[90%] max-w-4xl z-50 mt-0"
+                    : "mt-4"
+                } rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700`}
+              >
+                <iframe
+                  ref={iframeRef}
+                  src={
+                    typeof window !== "undefined" &&
+                    message.structured_content?._meta?.path
+                      ? message.structured_content._meta.path.startsWith("http")
+                        ? message.structured_content._meta.path
+                        : `${window.location.origin}${message.structured_content._meta.path}`
+                      : "" + "?firstParty=true"
+                  }
+                  className={`w-full border-0 ${
+                    pinnedWidget?.messageId === message.id ? "flex-1" : ""
+                  }`}
+                  style={{
+                    height:
+                      pinnedWidget?.messageId === message.id
+                        ? "100%"
+                        : iframeHeight
+                        ? `${iframeHeight}px`
+                        : "auto",
+                    minHeight:
+                      pinnedWidget?.messageId === message.id ? "100%" : "200px",
+                  }}
+                  title="Widget Content"
+                  sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+                  data-message-id={message.id}
+                  onLoad={(e) => {
+                    // Send structured content data to the iframe
+                    const iframe = e.currentTarget;
+                    const iframeWindow = iframe.contentWindow;
+
+                    if (iframeWindow && message.structured_content) {
+                      // Extract data from structured_content
+                      const { _meta, ...restContent } =
+                        message.structured_content;
+
+                      // Build the globals object that matches OpenAIGlobals structure
+                      const globals: Record<string, unknown> = {};
+
+                      // toolOutput contains the structured content (excluding _meta)
+                      // This is the data returned from the tool (e.g., action, standup, todos)
+                      if (Object.keys(restContent).length > 0) {
+                        globals.toolOutput = restContent;
+                      } else if (message.structured_content) {
+                        // If only _meta exists, still provide the full structured_content
+                        // This handles backward compatibility
+                        globals.toolOutput = message.structured_content;
+                      }
+
+                      // toolResponseMetadata contains the _meta (tool metadata like path, widget info)
+                      globals.toolResponseMetadata = _meta || null;
+
+                      // Send the data via postMessage
+                      // Send every 200ms for 2s to handle slow-loading iframes
+                      let attempts = 0;
+                      const maxAttempts = 10; // 2s / 200ms = 10 attempts
+                      const interval = setInterval(() => {
+                        if (iframeWindow) {
+                          iframeWindow.dispatchEvent(
+                            new CustomEvent("openai:set_globals", {
+                              detail: {
+                                globals,
+                              },
+                            })
+                          );
+                        }
+                        attempts++;
+                        if (attempts >= maxAttempts) {
+                          clearInterval(interval);
+                        }
+                      }, 200);
+                    }
+
+                    // Setup ResizeObserver after iframe loads to automatically track height
+                    try {
+                      const iframeWindow = iframe.contentWindow;
+                      if (iframeWindow?.document?.body) {
+                        const updateHeight = () => {
+                          try {
+                            if (iframeWindow?.document?.body) {
+                              const height = Math.max(
+                                iframeWindow.document.body.scrollHeight,
+                                iframeWindow.document.body.offsetHeight,
+                                iframeWindow.document.documentElement
+                                  .scrollHeight,
+                                iframeWindow.document.documentElement
+                                  .offsetHeight
+                              );
+                              if (height > 0) {
+                                setIframeHeight(height);
+                              }
+                            }
+                          } catch (e) {
+                            // Cross-origin or other error, ignore
+                          }
+                        };
+
+                        // Clean up any existing observer
+                        if (resizeObserverRef.current) {
+                          resizeObserverRef.current.disconnect();
+                        }
+
+                        // Create new ResizeObserver
+                        resizeObserverRef.current = new ResizeObserver(() => {
+                          updateHeight();
+                        });
+                        resizeObserverRef.current.observe(
+                          iframeWindow.document.body
+                        );
+                        // Get initial height
+                        updateHeight();
+                      }
+                    } catch (e) {
+                      // Cross-origin or other error, ignore
+                    }
+                  }}
+                />
+              </div>
+            )}
+            {message.status === "error" && (
+              <div className="mt-2 flex items-start justify-between gap-3 px-3 py-2 rounded-md border border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/40 text-sm text-red-700 dark:text-red-300">
+                <div className="min-w-0">
+                  <div className="font-medium">
+                    {message.error?.retryable
+                      ? "The response was interrupted"
+                      : "The response failed"}
+                  </div>
+                  {message.error && (
+                    <div className="text-xs text-red-600 dark:text-red-400 break-words">
+                      {message.error.provider}
+                      {message.error.httpStatus
+                        ? ` (HTTP ${message.error.httpStatus})`
+                        : ""}
+                      : {message.error.message}
+                    </div>
+                  )}
+                </div>
+                {onRedo && (
+                  <button
+                    onClick={() => onRedo(message.id)}
+                    disabled={isStreaming}
+                    className="flex-shrink-0 px-2 py-1 rounded bg-red-600 dark:bg-red-500 text-white text-xs hover:bg-red-700 dark:hover:bg-red-600 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+            {!isUser && onRedo && message.status !== "error" && (
+              <button
+                className="mt-2 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 flex items-center gap-1 transition-colors disabled:opacity-50"
+                onClick={() => {
+                  onRedo(message.id);
+                }}
+                disabled={isStreaming}
+                title="Generate another response; this one stays available as a version"
+              >
+                <svg
+                  className="w-3 h-3"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                  />
+                </svg>
+                Redo
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Marks where the model's context was reset
+export function ContextResetDivider() {
+  return (
+    <div className="flex items-center gap-3 py-3 px-6 text-xs text-gray-500 dark:text-gray-400">
+      <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+      <span>Context reset - earlier messages are not sent to the model</span>
+      <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+    </div>
+  );
+}
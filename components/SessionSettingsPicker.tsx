@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+// Types
+interface ProviderOption {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+  isConfigured: boolean;
+}
+
+interface PersonaOption {
+  id: string;
+  name: string;
+}
+
+export interface SessionSettingsValue {
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  systemPrompt: string | null;
+  personaId: string | null;
+}
+
+interface SessionSettingsPickerProps {
+  providers: ProviderOption[];
+  // Provider used when the session doesn't pick one
+  defaultProviderId: string;
+  // The user's persona library
+  personas: PersonaOption[];
+  settings: SessionSettingsValue;
+  onChange: (settings: Partial<SessionSettingsValue>) => void;
+  disabled?: boolean;
+}
+
+// Persona / provider / model picker with advanced settings (temperature,
+// system prompt)
+export function SessionSettingsPicker({
+  providers,
+  defaultProviderId,
+  personas,
+  settings,
+  onChange,
+  disabled,
+}: SessionSettingsPickerProps) {
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const [temperature, setTemperature] = useState(settings.temperature ?? 0.7);
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt ?? "");
+
+  // Reset the draft values when switching sessions
+  useEffect(() => {
+    setTemperature(settings.temperature ?? 0.7);
+    setSystemPrompt(settings.systemPrompt ?? "");
+  }, [settings.temperature, settings.systemPrompt]);
+
+  const activeProvider =
+    providers.find((p) => p.id === (settings.provider ?? defaultProviderId)) ??
+    null;
+
+  // Include the stored model even if it isn't one of the provider's listed models
+  const modelOptions = activeProvider
+    ? settings.model && !activeProvider.models.includes(settings.model)
+      ? [...activeProvider.models, settings.model]
+      : activeProvider.models
+    : [];
+
+  const selectClassName =
+    "px-2 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 disabled:opacity-50";
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <select
+        value={settings.personaId ?? ""}
+        onChange={(e) => onChange({ personaId: e.target.value || null })}
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="Persona"
+      >
+        <option value="">No persona</option>
+        {personas.map((persona) => (
+          <option key={persona.id} value={persona.id}>
+            {persona.name}
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.provider ?? ""}
+        onChange={(e) =>
+          // Changing provider resets the model to the provider's default
+          onChange({ provider: e.target.value || null, model: null })
+        }
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="Provider"
+      >
+        <option value="">
+          Default (
+          {providers.find((p) => p.id === defaultProviderId)?.label ??
+            defaultProviderId}
+          )
+        </option>
+        {providers.map((provider) => (
+          <option
+            key={provider.id}
+            value={provider.id}
+            disabled={!provider.isConfigured}
+          >
+            {provider.label}
+            {!provider.isConfigured ? " (not configured)" : ""}
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.model ?? ""}
+        onChange={(e) => onChange({ model: e.target.value || null })}
+        disabled={disabled || !activeProvider}
+        className={selectClassName}
+        aria-label="Model"
+      >
+        <option value="">
+          Default{activeProvider ? ` (${activeProvider.defaultModel})` : ""}
+        </option>
+        {modelOptions.map((model) => (
+          <option key={model} value={model}>
+            {model}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setIsAdvancedOpen(!isAdvancedOpen)}
+        disabled={disabled}
+        className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 transition-colors disabled:opacity-50"
+        title="Advanced settings"
+        aria-label="Advanced settings"
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"
+          />
+        </svg>
+      </button>
+
+      {/* Advanced settings popover */}
+      {isAdvancedOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-80 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg space-y-3">
+          <div>
+            <label className="flex items-center justify-between text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              <span>Temperature</span>
+              <span>{temperature.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              System prompt
+            </label>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={4}
+              placeholder="You are a helpful assistant..."
+              className="w-full px-2 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 resize-y"
+            />
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <Link
+              href="/chat/personas"
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Personas
+            </Link>
+            <Link
+              href="/chat/memories"
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Memories
+            </Link>
+            <Link
+              href="/chat/tools"
+              className="mr-auto text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Tools
+            </Link>
+            <button
+              onClick={() => {
+                onChange({ temperature: null, systemPrompt: null });
+                setIsAdvancedOpen(false);
+              }}
+              className="px-3 py-1.5 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              onClick={() => {
+                onChange({
+                  temperature,
+                  systemPrompt: systemPrompt.trim() || null,
+                });
+                setIsAdvancedOpen(false);
+              }}
+              className="px-3 py-1.5 rounded-md bg-blue-600 dark:bg-blue-500 text-white text-sm hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
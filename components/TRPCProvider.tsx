@@ -130,21 +130,14 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
     []
   );
 
-  // Extract authInfo from widgetMeta (ChatGPT context)
+  // Extract the user JWT from widgetMeta (ChatGPT context)
   const chatGptAuthToken = useMemo(() => {
     if (
       widgetMeta &&
       typeof widgetMeta === "object" &&
       "userJwt" in widgetMeta
     ) {
-      console.log(
-        "TRPCProvider setting up trpc with auth info",
-        widgetMeta.authInfo,
-        "and userJwt",
-        widgetMeta.userJwt
-      );
       const userJwt = widgetMeta.userJwt;
-      // authInfo might be a string token or an object with a token property
       if (typeof userJwt === "string") {
         return userJwt;
       }
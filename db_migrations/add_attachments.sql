@@ -0,0 +1,34 @@
+-- Migration to add file and image attachments on user messages
+
+CREATE TABLE IF NOT EXISTS "dev_attachment" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"message_id" text,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"storage" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"extracted_text" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- message_id stays NULL between upload and sending the message
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dev_attachment_message_id_dev_message_id_fk') THEN
+		ALTER TABLE "dev_attachment" ADD CONSTRAINT "dev_attachment_message_id_dev_message_id_fk"
+		FOREIGN KEY ("message_id") REFERENCES "dev_message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+	END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "dev_attachment_user_id_idx" ON "dev_attachment" ("user_id");
+CREATE INDEX IF NOT EXISTS "dev_attachment_message_id_idx" ON "dev_attachment" ("message_id");
+
+ALTER TABLE "dev_attachment" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_attachment_policy" ON "dev_attachment";
+CREATE POLICY "dev_attachment_policy" ON "dev_attachment"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
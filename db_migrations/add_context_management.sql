@@ -0,0 +1,21 @@
+-- Migration for token-aware context management
+-- Replaces the "-- IGNORE CONVERSATION BEFORE THIS LINE --" magic string with
+-- the 'context_reset' message role and adds the session columns storing the
+-- summary of older messages
+-- Needs add_context_reset_role.sql, which adds the role
+
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "context_summary" text;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "context_summary_message_id" text;
+
+-- Convert existing magic-string messages: insert a context reset marker just
+-- before each of them, so the history still starts at that message
+INSERT INTO "dev_message" ("content", "role", "session_id", "user_id", "created_at", "updated_at")
+SELECT '', 'context_reset', m."session_id", m."user_id", m."created_at" - interval '1 millisecond', m."created_at" - interval '1 millisecond'
+FROM "dev_message" m
+WHERE m."content" LIKE '%-- IGNORE CONVERSATION BEFORE THIS LINE --%'
+	AND NOT EXISTS (
+		SELECT 1 FROM "dev_message" r
+		WHERE r."role" = 'context_reset'
+			AND r."session_id" = m."session_id"
+			AND r."created_at" = m."created_at" - interval '1 millisecond'
+	);
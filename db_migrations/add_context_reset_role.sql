@@ -0,0 +1,5 @@
+-- Migration adding the 'context_reset' message role
+-- Run before add_context_management.sql: Postgres doesn't allow using a new
+-- enum value in the transaction that added it, so it has its own migration
+
+ALTER TYPE "message_role" ADD VALUE IF NOT EXISTS 'context_reset';
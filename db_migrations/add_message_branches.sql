@@ -0,0 +1,35 @@
+-- Migration for conversation branching
+-- Messages point to their parent, so edits and regenerations create sibling
+-- branches; each session remembers the last message of its active branch
+
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "parent_id" text;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "active_message_id" text;
+
+-- Existing sessions are linear: chain each message to the one before it
+UPDATE "dev_message" m
+SET "parent_id" = p."previous_id"
+FROM (
+	SELECT "id", LAG("id") OVER (PARTITION BY "session_id" ORDER BY "created_at", "id") AS "previous_id"
+	FROM "dev_message"
+) p
+WHERE m."id" = p."id" AND m."parent_id" IS NULL AND p."previous_id" IS NOT NULL;
+
+-- The active branch ends at the latest message
+UPDATE "dev_session" s
+SET "active_message_id" = (
+	SELECT m."id" FROM "dev_message" m
+	WHERE m."session_id" = s."id"
+	ORDER BY m."created_at" DESC, m."id" DESC
+	LIMIT 1
+)
+WHERE s."active_message_id" IS NULL;
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dev_message_parent_id_dev_message_id_fk') THEN
+		ALTER TABLE "dev_message" ADD CONSTRAINT "dev_message_parent_id_dev_message_id_fk"
+		FOREIGN KEY ("parent_id") REFERENCES "dev_message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+	END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "dev_message_parent_id_idx" ON "dev_message" ("parent_id");
@@ -0,0 +1,33 @@
+-- Optional migration for semantic search across chat sessions
+-- Requires the pgvector extension (available on Supabase). Only needed when
+-- CHAT_EMBEDDING_PROVIDER is set.
+
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- The vector dimension is left open since it depends on the embedding model
+CREATE TABLE IF NOT EXISTS "dev_message_embedding" (
+	"message_id" text PRIMARY KEY,
+	"session_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"model" text NOT NULL,
+	"embedding" vector NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dev_message_embedding_message_id_dev_message_id_fk') THEN
+		ALTER TABLE "dev_message_embedding" ADD CONSTRAINT "dev_message_embedding_message_id_dev_message_id_fk"
+		FOREIGN KEY ("message_id") REFERENCES "dev_message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+	END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "dev_message_embedding_user_id_model_idx" ON "dev_message_embedding" ("user_id", "model");
+
+ALTER TABLE "dev_message_embedding" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_message_embedding_policy" ON "dev_message_embedding";
+CREATE POLICY "dev_message_embedding_policy" ON "dev_message_embedding"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
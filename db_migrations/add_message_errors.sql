@@ -0,0 +1,7 @@
+-- Migration to save failed generations in dev_message
+-- Assistant messages whose generation failed are saved with the 'error' status,
+-- keeping any partial content, and the failure details in the error column
+
+ALTER TYPE "message_status" ADD VALUE IF NOT EXISTS 'error';
+
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "error" jsonb;
@@ -0,0 +1,5 @@
+-- Migration for full-text search across chat sessions
+-- chat.search matches messages with to_tsvector('english', content), which
+-- this expression index serves
+
+CREATE INDEX IF NOT EXISTS "dev_message_content_search_idx" ON "dev_message" USING GIN (to_tsvector('english', "content"));
@@ -0,0 +1,11 @@
+-- Migration to add a status column to dev_message
+-- Assistant messages whose generation was stopped by the user are saved as 'stopped'
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'message_status') THEN
+		CREATE TYPE "message_status" AS ENUM('complete', 'stopped');
+	END IF;
+END $$;
+
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "status" "message_status" DEFAULT 'complete' NOT NULL;
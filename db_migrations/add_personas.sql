@@ -0,0 +1,37 @@
+-- Migration to add the persona library (reusable system prompts)
+
+CREATE TABLE IF NOT EXISTS "dev_persona" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"system_prompt" text NOT NULL,
+	"allowed_tools" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "persona_id" text;
+
+-- Deleting a persona leaves its sessions without one
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dev_session_persona_id_dev_persona_id_fk') THEN
+		ALTER TABLE "dev_session" ADD CONSTRAINT "dev_session_persona_id_dev_persona_id_fk"
+		FOREIGN KEY ("persona_id") REFERENCES "dev_persona"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+	END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "dev_persona_user_id_idx" ON "dev_persona" ("user_id");
+
+DROP TRIGGER IF EXISTS update_dev_persona_updated_at ON "dev_persona";
+CREATE TRIGGER update_dev_persona_updated_at BEFORE UPDATE ON "dev_persona" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE "dev_persona" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_persona_policy" ON "dev_persona";
+CREATE POLICY "dev_persona_policy" ON "dev_persona"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
@@ -0,0 +1,36 @@
+-- Migration for per-user rate limits and quotas
+-- rate_limit_hit stores the requests counted by the sliding-window limiter;
+-- voice_usage stores transcribed audio for the daily voice quota
+-- (the daily token quota reads the dev_usage ledger)
+
+CREATE TABLE IF NOT EXISTS "rate_limit_hit" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "voice_usage" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"seconds" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "rate_limit_hit_user_id_key_created_at_idx" ON "rate_limit_hit" ("user_id", "key", "created_at");
+CREATE INDEX IF NOT EXISTS "voice_usage_user_id_created_at_idx" ON "voice_usage" ("user_id", "created_at");
+
+ALTER TABLE "rate_limit_hit" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "voice_usage" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rate_limit_hit_policy" ON "rate_limit_hit";
+CREATE POLICY "rate_limit_hit_policy" ON "rate_limit_hit"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+DROP POLICY IF EXISTS "voice_usage_policy" ON "voice_usage";
+CREATE POLICY "voice_usage_policy" ON "voice_usage"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
@@ -0,0 +1,8 @@
+-- Migration to add pinning, archiving and folders to dev_session
+
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "pinned_at" timestamp;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "archived_at" timestamp;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "folder" text;
+
+-- chat.listSessions pages through a user's sessions by updated_at
+CREATE INDEX IF NOT EXISTS "dev_session_user_id_updated_at_idx" ON "dev_session" ("user_id", "updated_at");
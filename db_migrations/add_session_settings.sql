@@ -0,0 +1,7 @@
+-- Migration to add per-session LLM settings to dev_session
+-- Null values fall back to the provider/model defaults in app/chat/providers.registry.ts
+
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "provider" text;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "model" text;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "temperature" real;
+ALTER TABLE "dev_session" ADD COLUMN IF NOT EXISTS "system_prompt" text;
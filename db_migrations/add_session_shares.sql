@@ -0,0 +1,64 @@
+-- Migration to add read-only share links for chat sessions
+
+CREATE TABLE IF NOT EXISTS "dev_session_share" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"token" text NOT NULL UNIQUE,
+	"session_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dev_session_share_session_id_dev_session_id_fk') THEN
+		ALTER TABLE "dev_session_share" ADD CONSTRAINT "dev_session_share_session_id_dev_session_id_fk"
+		FOREIGN KEY ("session_id") REFERENCES "dev_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+	END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "dev_session_share_session_id_idx" ON "dev_session_share" ("session_id");
+CREATE INDEX IF NOT EXISTS "dev_session_share_user_id_idx" ON "dev_session_share" ("user_id");
+
+ALTER TABLE "dev_session_share" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_session_share_policy" ON "dev_session_share";
+CREATE POLICY "dev_session_share_policy" ON "dev_session_share"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+-- Read-only access for the holder of a valid share token
+-- (set with withShareContext). Only the shared session and its messages
+-- become visible; nothing can be written.
+DROP POLICY IF EXISTS "dev_session_share_token_policy" ON "dev_session_share";
+CREATE POLICY "dev_session_share_token_policy" ON "dev_session_share"
+	FOR SELECT
+	USING (
+		"token" = current_setting('app.share_token', TRUE)
+		AND "revoked_at" IS NULL
+		AND ("expires_at" IS NULL OR "expires_at" > now())
+	);
+
+DROP POLICY IF EXISTS "dev_session_shared_policy" ON "dev_session";
+CREATE POLICY "dev_session_shared_policy" ON "dev_session"
+	FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM "dev_session_share"
+		WHERE "dev_session_share"."session_id" = "dev_session"."id"
+			AND "dev_session_share"."token" = current_setting('app.share_token', TRUE)
+			AND "dev_session_share"."revoked_at" IS NULL
+			AND ("dev_session_share"."expires_at" IS NULL OR "dev_session_share"."expires_at" > now())
+	));
+
+DROP POLICY IF EXISTS "dev_message_shared_policy" ON "dev_message";
+CREATE POLICY "dev_message_shared_policy" ON "dev_message"
+	FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM "dev_session_share"
+		WHERE "dev_session_share"."session_id" = "dev_message"."session_id"
+			AND "dev_session_share"."token" = current_setting('app.share_token', TRUE)
+			AND "dev_session_share"."revoked_at" IS NULL
+			AND ("dev_session_share"."expires_at" IS NULL OR "dev_session_share"."expires_at" > now())
+	));
@@ -0,0 +1,42 @@
+-- Migration to limit share links to the visible conversation
+-- Share tokens can only read user and assistant messages and context resets.
+-- Tool results and system prompts stay hidden, so the active branch is
+-- walked by dev_shared_branch_ids, which can follow links through them.
+
+CREATE OR REPLACE FUNCTION dev_shared_branch_ids(share_token text)
+RETURNS SETOF text AS $$
+	WITH RECURSIVE "branch" AS (
+		SELECT m."id", m."parent_id"
+		FROM "dev_session_share" sh
+		JOIN "dev_session" s ON s."id" = sh."session_id"
+		JOIN "dev_message" m ON m."id" = COALESCE(
+			s."active_message_id",
+			(SELECT "id" FROM "dev_message"
+				WHERE "session_id" = s."id"
+				ORDER BY "created_at" DESC, "id" DESC
+				LIMIT 1)
+		)
+		WHERE sh."token" = share_token
+			AND sh."revoked_at" IS NULL
+			AND (sh."expires_at" IS NULL OR sh."expires_at" > now())
+		UNION ALL
+		SELECT m."id", m."parent_id"
+		FROM "dev_message" m
+		JOIN "branch" b ON m."id" = b."parent_id"
+	)
+	SELECT "id" FROM "branch";
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "dev_message_shared_policy" ON "dev_message";
+CREATE POLICY "dev_message_shared_policy" ON "dev_message"
+	FOR SELECT
+	USING (
+		"role" IN ('user', 'assistant', 'context_reset')
+		AND EXISTS (
+			SELECT 1 FROM "dev_session_share"
+			WHERE "dev_session_share"."session_id" = "dev_message"."session_id"
+				AND "dev_session_share"."token" = current_setting('app.share_token', TRUE)
+				AND "dev_session_share"."revoked_at" IS NULL
+				AND ("dev_session_share"."expires_at" IS NULL OR "dev_session_share"."expires_at" > now())
+		)
+	);
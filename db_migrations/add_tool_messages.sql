@@ -0,0 +1,9 @@
+-- Migration to persist tool calls and tool results in dev_message
+-- Assistant messages store the tool calls they made in tool_calls;
+-- each tool result is stored as a 'tool' message with tool_call_id and tool_name
+
+ALTER TYPE "message_role" ADD VALUE IF NOT EXISTS 'tool';
+
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "tool_calls" jsonb;
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "tool_call_id" text;
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "tool_name" text;
@@ -0,0 +1,19 @@
+-- Migration to add per-user tool settings (tools a user turned off)
+
+CREATE TABLE IF NOT EXISTS "dev_tool_settings" (
+	"user_id" text PRIMARY KEY,
+	"disabled_tools" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_dev_tool_settings_updated_at ON "dev_tool_settings";
+CREATE TRIGGER update_dev_tool_settings_updated_at BEFORE UPDATE ON "dev_tool_settings" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE "dev_tool_settings" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_tool_settings_policy" ON "dev_tool_settings";
+CREATE POLICY "dev_tool_settings_policy" ON "dev_tool_settings"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
@@ -0,0 +1,7 @@
+-- Migration to let the admin spend report read every user's usage
+-- The report sets app.is_admin through withAdminContext (server/db/index.ts)
+
+DROP POLICY IF EXISTS "dev_usage_admin_read_policy" ON "dev_usage";
+CREATE POLICY "dev_usage_admin_read_policy" ON "dev_usage"
+	FOR SELECT
+	USING (current_setting('app.is_admin', TRUE) = 'true');
@@ -0,0 +1,38 @@
+-- Migration for token usage and cost accounting
+-- Assistant messages store the usage of the request that produced them in
+-- dev_message.usage; every LLM request (including session naming and history
+-- summaries) is also recorded in the dev_usage ledger
+
+DO $$
+BEGIN
+	IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'usage_purpose') THEN
+		CREATE TYPE "usage_purpose" AS ENUM('chat', 'session_name', 'summary');
+	END IF;
+END $$;
+
+ALTER TABLE "dev_message" ADD COLUMN IF NOT EXISTS "usage" jsonb;
+
+CREATE TABLE IF NOT EXISTS "dev_usage" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"session_id" text,
+	"message_id" text,
+	"purpose" "usage_purpose" DEFAULT 'chat' NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"cost_usd" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "dev_usage_user_id_created_at_idx" ON "dev_usage" ("user_id", "created_at");
+CREATE INDEX IF NOT EXISTS "dev_usage_session_id_idx" ON "dev_usage" ("session_id");
+
+ALTER TABLE "dev_usage" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_usage_policy" ON "dev_usage";
+CREATE POLICY "dev_usage_policy" ON "dev_usage"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
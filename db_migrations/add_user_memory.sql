@@ -0,0 +1,23 @@
+-- Migration to add long-term user memory (remember/recall/forget tools)
+
+CREATE TABLE IF NOT EXISTS "dev_memory" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "dev_memory_user_id_updated_at_idx" ON "dev_memory" ("user_id", "updated_at");
+
+DROP TRIGGER IF EXISTS update_dev_memory_updated_at ON "dev_memory";
+CREATE TRIGGER update_dev_memory_updated_at BEFORE UPDATE ON "dev_memory" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE "dev_memory" ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dev_memory_policy" ON "dev_memory";
+CREATE POLICY "dev_memory_policy" ON "dev_memory"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
@@ -7,7 +7,9 @@ CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
 -- Create enums
 CREATE TYPE "todo_status" AS ENUM('pending', 'in_progress', 'completed', 'cancelled');
-CREATE TYPE "message_role" AS ENUM('system', 'user', 'assistant');
+CREATE TYPE "message_role" AS ENUM('system', 'user', 'assistant', 'tool', 'context_reset');
+CREATE TYPE "message_status" AS ENUM('complete', 'stopped', 'error');
+CREATE TYPE "usage_purpose" AS ENUM('chat', 'session_name', 'summary');
 
 -- Create the posts table
 CREATE TABLE "posts" (
@@ -45,6 +47,17 @@ CREATE TABLE "dev_session" (
 	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
 	"name" text NOT NULL,
 	"user_id" text NOT NULL,
+	"provider" text,
+	"model" text,
+	"temperature" real,
+	"system_prompt" text,
+	"persona_id" text,
+	"context_summary" text,
+	"context_summary_message_id" text,
+	"active_message_id" text,
+	"pinned_at" timestamp,
+	"archived_at" timestamp,
+	"folder" text,
 	"created_at" timestamp DEFAULT now() NOT NULL,
 	"updated_at" timestamp DEFAULT now() NOT NULL
 );
@@ -56,12 +69,105 @@ CREATE TABLE "dev_message" (
 	"structured_content" jsonb,
 	"widget_id" text,
 	"role" "message_role" NOT NULL,
+	"parent_id" text,
+	"tool_calls" jsonb,
+	"tool_call_id" text,
+	"tool_name" text,
+	"status" "message_status" DEFAULT 'complete' NOT NULL,
+	"error" jsonb,
+	"usage" jsonb,
 	"session_id" text NOT NULL,
 	"user_id" text NOT NULL,
 	"created_at" timestamp DEFAULT now() NOT NULL,
 	"updated_at" timestamp DEFAULT now() NOT NULL
 );
 
+-- Create the dev_session_share table (read-only share links)
+CREATE TABLE "dev_session_share" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"token" text NOT NULL UNIQUE,
+	"session_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the dev_persona table (reusable system prompts)
+CREATE TABLE "dev_persona" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"system_prompt" text NOT NULL,
+	"allowed_tools" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the dev_tool_settings table (tools each user turned off)
+CREATE TABLE "dev_tool_settings" (
+	"user_id" text PRIMARY KEY,
+	"disabled_tools" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the dev_memory table (long-term user memory)
+CREATE TABLE "dev_memory" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the dev_attachment table (files sent with user messages)
+-- message_id stays NULL between upload and sending the message
+CREATE TABLE "dev_attachment" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"message_id" text,
+	"filename" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"storage" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"extracted_text" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the dev_usage table (ledger of LLM requests, no foreign keys so
+-- spend history survives deleted sessions)
+CREATE TABLE "dev_usage" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"session_id" text,
+	"message_id" text,
+	"purpose" "usage_purpose" DEFAULT 'chat' NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"cost_usd" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the rate_limit_hit table (sliding-window rate limiter)
+CREATE TABLE "rate_limit_hit" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Create the voice_usage table (daily voice quota)
+CREATE TABLE "voice_usage" (
+	"id" text PRIMARY KEY DEFAULT (gen_random_uuid()),
+	"user_id" text NOT NULL,
+	"seconds" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
 -- Add foreign key constraints
 -- Self-referencing foreign key for parent-child relationship in todos
 ALTER TABLE "todos" ADD CONSTRAINT "todos_parent_todo_id_todos_id_fk" 
@@ -75,6 +181,24 @@ FOREIGN KEY ("standup_id") REFERENCES "standup"("id") ON DELETE CASCADE ON UPDAT
 ALTER TABLE "dev_message" ADD CONSTRAINT "dev_message_session_id_dev_session_id_fk" 
 FOREIGN KEY ("session_id") REFERENCES "dev_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
+-- Self-referencing foreign key for the dev_message conversation tree
+-- Deleting a message deletes the branches below it
+ALTER TABLE "dev_message" ADD CONSTRAINT "dev_message_parent_id_dev_message_id_fk" 
+FOREIGN KEY ("parent_id") REFERENCES "dev_message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Foreign key from dev_session_share to dev_session
+ALTER TABLE "dev_session_share" ADD CONSTRAINT "dev_session_share_session_id_dev_session_id_fk" 
+FOREIGN KEY ("session_id") REFERENCES "dev_session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Foreign key from dev_session to dev_persona
+-- Deleting a persona leaves its sessions without one
+ALTER TABLE "dev_session" ADD CONSTRAINT "dev_session_persona_id_dev_persona_id_fk" 
+FOREIGN KEY ("persona_id") REFERENCES "dev_persona"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Foreign key from dev_attachment to dev_message
+ALTER TABLE "dev_attachment" ADD CONSTRAINT "dev_attachment_message_id_dev_message_id_fk" 
+FOREIGN KEY ("message_id") REFERENCES "dev_message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
 -- Create indexes for better performance
 CREATE INDEX "posts_user_id_idx" ON "posts" ("user_id");
 CREATE INDEX "standup_user_id_idx" ON "standup" ("user_id");
@@ -83,9 +207,23 @@ CREATE INDEX "todos_parent_todo_id_idx" ON "todos" ("parent_todo_id");
 CREATE INDEX "todos_standup_id_idx" ON "todos" ("standup_id");
 CREATE INDEX "todos_status_idx" ON "todos" ("status");
 CREATE INDEX "dev_session_user_id_idx" ON "dev_session" ("user_id");
+CREATE INDEX "dev_session_user_id_updated_at_idx" ON "dev_session" ("user_id", "updated_at");
 CREATE INDEX "dev_message_session_id_idx" ON "dev_message" ("session_id");
 CREATE INDEX "dev_message_user_id_idx" ON "dev_message" ("user_id");
 CREATE INDEX "dev_message_role_idx" ON "dev_message" ("role");
+CREATE INDEX "dev_message_parent_id_idx" ON "dev_message" ("parent_id");
+-- Full-text search over message content (chat.search)
+CREATE INDEX "dev_message_content_search_idx" ON "dev_message" USING GIN (to_tsvector('english', "content"));
+CREATE INDEX "dev_session_share_session_id_idx" ON "dev_session_share" ("session_id");
+CREATE INDEX "dev_session_share_user_id_idx" ON "dev_session_share" ("user_id");
+CREATE INDEX "dev_persona_user_id_idx" ON "dev_persona" ("user_id");
+CREATE INDEX "dev_memory_user_id_updated_at_idx" ON "dev_memory" ("user_id", "updated_at");
+CREATE INDEX "dev_attachment_user_id_idx" ON "dev_attachment" ("user_id");
+CREATE INDEX "dev_attachment_message_id_idx" ON "dev_attachment" ("message_id");
+CREATE INDEX "dev_usage_user_id_created_at_idx" ON "dev_usage" ("user_id", "created_at");
+CREATE INDEX "dev_usage_session_id_idx" ON "dev_usage" ("session_id");
+CREATE INDEX "rate_limit_hit_user_id_key_created_at_idx" ON "rate_limit_hit" ("user_id", "key", "created_at");
+CREATE INDEX "voice_usage_user_id_created_at_idx" ON "voice_usage" ("user_id", "created_at");
 
 -- Create function to automatically update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -107,6 +245,39 @@ CREATE TRIGGER update_dev_session_updated_at BEFORE UPDATE ON "dev_session"
 	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_dev_message_updated_at BEFORE UPDATE ON "dev_message" 
 	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_dev_persona_updated_at BEFORE UPDATE ON "dev_persona" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_dev_memory_updated_at BEFORE UPDATE ON "dev_memory" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_dev_tool_settings_updated_at BEFORE UPDATE ON "dev_tool_settings" 
+	FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- IDs of the active branch of a shared session, for a valid share token
+-- Runs as its owner, so it can walk through the tool messages and system
+-- prompts that the share policies hide
+CREATE OR REPLACE FUNCTION dev_shared_branch_ids(share_token text)
+RETURNS SETOF text AS $$
+	WITH RECURSIVE "branch" AS (
+		SELECT m."id", m."parent_id"
+		FROM "dev_session_share" sh
+		JOIN "dev_session" s ON s."id" = sh."session_id"
+		JOIN "dev_message" m ON m."id" = COALESCE(
+			s."active_message_id",
+			(SELECT "id" FROM "dev_message"
+				WHERE "session_id" = s."id"
+				ORDER BY "created_at" DESC, "id" DESC
+				LIMIT 1)
+		)
+		WHERE sh."token" = share_token
+			AND sh."revoked_at" IS NULL
+			AND (sh."expires_at" IS NULL OR sh."expires_at" > now())
+		UNION ALL
+		SELECT m."id", m."parent_id"
+		FROM "dev_message" m
+		JOIN "branch" b ON m."id" = b."parent_id"
+	)
+	SELECT "id" FROM "branch";
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
 
 -- Add check constraint to prevent circular references in todos
 ALTER TABLE "todos" ADD CONSTRAINT "todos_no_self_reference" 
@@ -118,6 +289,14 @@ ALTER TABLE "standup" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "todos" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "dev_session" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "dev_message" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_session_share" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_persona" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_memory" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_tool_settings" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_attachment" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dev_usage" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "rate_limit_hit" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "voice_usage" ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies for all tables with user_id
 -- Each policy uses FOR ALL to cover SELECT, INSERT, UPDATE, and DELETE operations
@@ -147,6 +326,89 @@ CREATE POLICY "dev_message_policy" ON "dev_message"
 	USING ("user_id" = current_setting('app.current_user_id', TRUE))
 	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
 
+CREATE POLICY "dev_session_share_policy" ON "dev_session_share"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+-- Read-only access for the holder of a valid share token
+-- (set with withShareContext). Only the shared session and its messages
+-- become visible; nothing can be written.
+CREATE POLICY "dev_session_share_token_policy" ON "dev_session_share"
+	FOR SELECT
+	USING (
+		"token" = current_setting('app.share_token', TRUE)
+		AND "revoked_at" IS NULL
+		AND ("expires_at" IS NULL OR "expires_at" > now())
+	);
+
+CREATE POLICY "dev_session_shared_policy" ON "dev_session"
+	FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM "dev_session_share"
+		WHERE "dev_session_share"."session_id" = "dev_session"."id"
+			AND "dev_session_share"."token" = current_setting('app.share_token', TRUE)
+			AND "dev_session_share"."revoked_at" IS NULL
+			AND ("dev_session_share"."expires_at" IS NULL OR "dev_session_share"."expires_at" > now())
+	));
+
+-- Tool results and system prompts aren't shared
+CREATE POLICY "dev_message_shared_policy" ON "dev_message"
+	FOR SELECT
+	USING (
+		"role" IN ('user', 'assistant', 'context_reset')
+		AND EXISTS (
+			SELECT 1 FROM "dev_session_share"
+			WHERE "dev_session_share"."session_id" = "dev_message"."session_id"
+				AND "dev_session_share"."token" = current_setting('app.share_token', TRUE)
+				AND "dev_session_share"."revoked_at" IS NULL
+				AND ("dev_session_share"."expires_at" IS NULL OR "dev_session_share"."expires_at" > now())
+		)
+	);
+
+CREATE POLICY "dev_persona_policy" ON "dev_persona"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+CREATE POLICY "dev_memory_policy" ON "dev_memory"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+CREATE POLICY "dev_tool_settings_policy" ON "dev_tool_settings"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+CREATE POLICY "dev_attachment_policy" ON "dev_attachment"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+CREATE POLICY "dev_usage_policy" ON "dev_usage"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+-- The admin spend report reads every user's usage (withAdminContext)
+CREATE POLICY "dev_usage_admin_read_policy" ON "dev_usage"
+	FOR SELECT
+	USING (current_setting('app.is_admin', TRUE) = 'true');
+
+CREATE POLICY "rate_limit_hit_policy" ON "rate_limit_hit"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+CREATE POLICY "voice_usage_policy" ON "voice_usage"
+	FOR ALL
+	USING ("user_id" = current_setting('app.current_user_id', TRUE))
+	WITH CHECK ("user_id" = current_setting('app.current_user_id', TRUE));
+
+-- Semantic search is optional and needs the pgvector extension:
+-- run add_message_embeddings.sql to create the dev_message_embedding table
+
 -- Note: To use these RLS policies, you need to set the user_id in each database session:
 -- SET LOCAL app.current_user_id = 'user_id_from_clerk';
 -- This should be done at the beginning of each database transaction in your application code.
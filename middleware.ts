@@ -18,6 +18,10 @@ const isPublicRoute = createRouteMatcher([
   "/trpc-demo(.*)",
   "/api/trpc(.*)",
   "/chat(.*)",
+  // Read-only shared sessions. Listed on its own so it stays public if /chat
+  // is ever protected; only the single token segment is matched, and the
+  // token is checked against dev_session_share by chat.getSharedSession.
+  "/chat/share/:token",
 ]);
 
 // Note: Admin routes removed - add your own admin routes here if needed
@@ -0,0 +1,71 @@
+// Collects every *.tool.ts module under app/ and server/ into
+// app/mcp/tools.generated.ts, which app/mcp/tools.registry.ts reads the
+// tools and widgets from. Runs before `dev` and `build`; pass --check to
+// fail instead of writing when the file is out of date (e.g. in CI).
+import { readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const searchDirs = ["app", "server"];
+const outputFile = "app/mcp/tools.generated.ts";
+const toolModulePattern = /\.tool\.ts$/;
+
+async function findToolModules(dir) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === "node_modules" || entry.name.startsWith(".")
+          ? []
+          : findToolModules(entryPath);
+      }
+      return toolModulePattern.test(entry.name) ? [entryPath] : [];
+    })
+  );
+  return files.flat();
+}
+
+const modulePaths = (
+  await Promise.all(
+    searchDirs.map((dir) => findToolModules(path.join(root, dir)))
+  )
+)
+  .flat()
+  .map((file) => path.relative(root, file).split(path.sep).join("/"))
+  .sort();
+
+const source = [
+  "// Generated by scripts/generate-tool-registry.mjs - do not edit.",
+  "// Run `npm run generate:tools` after adding or removing a *.tool.ts file.",
+  'import type { ToolModule } from "./tool.utils";',
+  ...modulePaths.map(
+    (modulePath, index) =>
+      `import * as toolModule${index} from "@/${modulePath.replace(
+        /\.ts$/,
+        ""
+      )}";`
+  ),
+  "",
+  "export const toolModules: ToolModule[] = [",
+  ...modulePaths.map(
+    (modulePath, index) =>
+      `  { path: "${modulePath}", exports: toolModule${index} },`
+  ),
+  "];",
+  "",
+].join("\n");
+
+const outputPath = path.join(root, outputFile);
+const current = await readFile(outputPath, "utf8").catch(() => null);
+
+if (current === source) {
+  console.log(`${outputFile} is up to date (${modulePaths.length} modules)`);
+} else if (process.argv.includes("--check")) {
+  console.error(`${outputFile} is out of date, run \`npm run generate:tools\``);
+  process.exit(1);
+} else {
+  await writeFile(outputPath, source);
+  console.log(`Wrote ${outputFile} (${modulePaths.length} modules)`);
+}
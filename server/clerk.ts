@@ -0,0 +1,6 @@
+import { createClerkClient } from "@clerk/backend";
+
+// Clerk Backend API client, e.g. for reading a user's profile and metadata
+export const clerkClient = createClerkClient({
+  secretKey: process.env.CLERK_SECRET_KEY,
+});
@@ -13,7 +13,7 @@ const client = postgres(process.env.DATABASE_URL!);
 export const db = drizzle(client, { schema });
 
 // Type for the transaction parameter
-type Transaction = PgTransaction<
+export type Transaction = PgTransaction<
   PostgresJsQueryResultHKT,
   typeof schema,
   ExtractTablesWithRelations<typeof schema>
@@ -33,5 +33,31 @@ export async function withUserContext<T>(
   });
 }
 
+// Helper function to run queries as the holder of a share link
+// No user is set, so the user policies match nothing; the share policies
+// only allow reading the shared session while the link is valid
+export async function withShareContext<T>(
+  token: string,
+  callback: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return db.transaction(async (tx) => {
+    // The token comes straight from the URL, so pass it as a parameter
+    await tx.execute(sql`SELECT set_config('app.share_token', ${token}, true)`);
+    return callback(tx);
+  });
+}
+
+// Helper function to run admin reports that read across users
+// Sets app.is_admin, which only the admin read policies check; callers must
+// have checked that the user is an admin (adminProcedure)
+export async function withAdminContext<T>(
+  callback: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT set_config('app.is_admin', 'true', true)`);
+    return callback(tx);
+  });
+}
+
 // Export schema for convenience
 export * from "./schema";
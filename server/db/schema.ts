@@ -5,7 +5,10 @@ import {
   pgEnum,
   jsonb,
   integer,
+  real,
+  doublePrecision,
   check,
+  customType,
 } from "drizzle-orm/pg-core";
 import { relations, sql } from "drizzle-orm";
 import { unique } from "drizzle-orm/pg-core";
@@ -18,11 +21,28 @@ export const todoStatusEnum = pgEnum("todo_status", [
   "cancelled",
 ]);
 
-// Enum for message role (ChatGPT API roles)
+// Enum for message role (ChatGPT API roles, plus markers that aren't sent to the model)
 export const messageRoleEnum = pgEnum("message_role", [
   "system",
   "user",
   "assistant",
+  "tool",
+  // Earlier messages are left out of the model's context
+  "context_reset",
+]);
+
+// Enum for how an assistant message's generation ended
+export const messageStatusEnum = pgEnum("message_status", [
+  "complete",
+  "stopped",
+  "error",
+]);
+
+// Enum for what an LLM request was made for
+export const usagePurposeEnum = pgEnum("usage_purpose", [
+  "chat",
+  "session_name",
+  "summary",
 ]);
 
 // Note: Removed learning-specific enums (sessionTypeEnum, microScoreEnum, visibilityEnum)
@@ -79,6 +99,27 @@ export const devSession = pgTable("dev_session", {
     .$defaultFn(() => crypto.randomUUID()),
   name: text("name").notNull(),
   user_id: text("user_id").notNull(),
+  // LLM settings for the session. Null means use the provider/model defaults.
+  provider: text("provider"),
+  model: text("model"),
+  temperature: real("temperature"),
+  system_prompt: text("system_prompt"),
+  // Persona the session was created from; its prompt is sent before
+  // system_prompt and it can restrict the tools the model may call
+  persona_id: text("persona_id"),
+  // Summary of the oldest messages, sent instead of them once the history
+  // outgrows the context budget. Covers messages up to and including
+  // context_summary_message_id.
+  context_summary: text("context_summary"),
+  context_summary_message_id: text("context_summary_message_id"),
+  // Last message of the branch shown to the user and sent to the model
+  active_message_id: text("active_message_id"),
+  // Sidebar organization: pinned sessions are listed first, archived ones
+  // are hidden from the list but still searchable
+  pinned_at: timestamp("pinned_at", { withTimezone: false }),
+  archived_at: timestamp("archived_at", { withTimezone: false }),
+  // User-defined folder name, null when not in a folder
+  folder: text("folder"),
   created_at: timestamp("created_at", { withTimezone: false })
     .defaultNow()
     .notNull(),
@@ -87,6 +128,34 @@ export const devSession = pgTable("dev_session", {
     .notNull(),
 });
 
+// Tool call as stored on an assistant message
+export type StoredToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+};
+
+// Why an assistant message's generation failed
+export type StoredMessageError = {
+  message: string;
+  provider: string;
+  model: string;
+  // HTTP status returned by the provider, null if no response was received
+  httpStatus: number | null;
+  // Whether retrying the same request may succeed
+  retryable: boolean;
+};
+
+// Token usage of the LLM request that produced an assistant message
+export type StoredUsage = {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Null when the model has no price in the price table
+  costUsd: number | null;
+};
+
 export const devMessage = pgTable("dev_message", {
   id: text("id")
     .primaryKey()
@@ -97,6 +166,19 @@ export const devMessage = pgTable("dev_message", {
   // structured_content will be passed to the widget.
   widget_id: text("widget_id"),
   role: messageRoleEnum("role").notNull(),
+  // Previous message in the conversation tree (null for the first message).
+  // Edits and regenerations add siblings, i.e. messages with the same parent.
+  parent_id: text("parent_id"),
+  // Tool calls made by an assistant message, replayed to the model on later turns
+  tool_calls: jsonb("tool_calls").$type<StoredToolCall[]>(),
+  // For tool messages: the tool call this message is the result of
+  tool_call_id: text("tool_call_id"),
+  tool_name: text("tool_name"),
+  status: messageStatusEnum("status").notNull().default("complete"),
+  // Set when status is 'error'
+  error: jsonb("error").$type<StoredMessageError>(),
+  // For assistant messages: tokens used and their cost
+  usage: jsonb("usage").$type<StoredUsage>(),
   session_id: text("session_id").notNull(),
   user_id: text("user_id").notNull(),
   created_at: timestamp("created_at", { withTimezone: false })
@@ -107,6 +189,161 @@ export const devMessage = pgTable("dev_message", {
     .notNull(),
 });
 
+// Reusable system prompts. The prompt is a template: {{date}} and
+// {{user_name}} are filled in on every request.
+export const devPersona = pgTable("dev_persona", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  system_prompt: text("system_prompt").notNull(),
+  // Names of the tools from toolRegistry the model may call; null allows all
+  allowed_tools: jsonb("allowed_tools").$type<string[]>(),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+  updated_at: timestamp("updated_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Facts the assistant remembers about a user across sessions, written with
+// the remember tool or edited on the memories page
+export const devMemory = pgTable("dev_memory", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  content: text("content").notNull(),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+  updated_at: timestamp("updated_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Tools a user has turned off; every other tool their roles and scopes allow
+// is offered to the model and MCP clients
+export const devToolSettings = pgTable("dev_tool_settings", {
+  user_id: text("user_id").primaryKey(),
+  disabled_tools: jsonb("disabled_tools")
+    .$type<string[]>()
+    .default([])
+    .notNull(),
+  updated_at: timestamp("updated_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Files attached to user messages. The content lives in attachment storage
+// (see app/chat/storage.registry.ts); message_id is null until the message
+// the file was uploaded for is sent.
+export const devAttachment = pgTable("dev_attachment", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  message_id: text("message_id"),
+  filename: text("filename").notNull(),
+  content_type: text("content_type").notNull(),
+  size_bytes: integer("size_bytes").notNull(),
+  // Storage backend and key the content was written to
+  storage: text("storage").notNull(),
+  storage_key: text("storage_key").notNull(),
+  // Text of documents, sent to the model instead of the file
+  extracted_text: text("extracted_text"),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Public read-only links to a session. Anyone with the token can view the
+// session's active branch until the link expires or is revoked.
+export const devSessionShare = pgTable("dev_session_share", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  token: text("token").notNull().unique(),
+  session_id: text("session_id").notNull(),
+  user_id: text("user_id").notNull(),
+  // Null means the link never expires
+  expires_at: timestamp("expires_at", { withTimezone: false }),
+  revoked_at: timestamp("revoked_at", { withTimezone: false }),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// pgvector column without a fixed dimension, which depends on the embedding model
+const embeddingVector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => JSON.stringify(value),
+  fromDriver: (value) => JSON.parse(value),
+});
+
+// Embeddings of message content for semantic search. Only used when an
+// embedding provider is configured; requires the pgvector extension.
+export const devMessageEmbedding = pgTable("dev_message_embedding", {
+  message_id: text("message_id").primaryKey(),
+  session_id: text("session_id").notNull(),
+  user_id: text("user_id").notNull(),
+  // Embedding model, so vectors of different models are never compared
+  model: text("model").notNull(),
+  embedding: embeddingVector("embedding").notNull(),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Ledger of every LLM request, for spend reporting. Rows are kept when their
+// session or message is deleted.
+export const devUsage = pgTable("dev_usage", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  session_id: text("session_id"),
+  message_id: text("message_id"),
+  purpose: usagePurposeEnum("purpose").notNull().default("chat"),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  prompt_tokens: integer("prompt_tokens").notNull(),
+  completion_tokens: integer("completion_tokens").notNull(),
+  // Null when the model has no price in the price table
+  cost_usd: doublePrecision("cost_usd"),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Requests counted by the sliding-window rate limiter, per user and procedure
+export const rateLimitHit = pgTable("rate_limit_hit", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  // Procedure path, e.g. chat.addUserMessage
+  key: text("key").notNull(),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
+// Audio transcribed per request, for the daily voice quota
+export const voiceUsage = pgTable("voice_usage", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  user_id: text("user_id").notNull(),
+  seconds: real("seconds").notNull(),
+  created_at: timestamp("created_at", { withTimezone: false })
+    .defaultNow()
+    .notNull(),
+});
+
 export type Post = typeof posts.$inferSelect;
 export type NewPost = typeof posts.$inferInsert;
 
@@ -122,6 +359,24 @@ export type NewDevSession = typeof devSession.$inferInsert;
 export type DevMessage = typeof devMessage.$inferSelect;
 export type NewDevMessage = typeof devMessage.$inferInsert;
 
+export type DevUsage = typeof devUsage.$inferSelect;
+export type NewDevUsage = typeof devUsage.$inferInsert;
+
+export type DevPersona = typeof devPersona.$inferSelect;
+
+export type DevMemory = typeof devMemory.$inferSelect;
+
+export type DevToolSettings = typeof devToolSettings.$inferSelect;
+
+export type DevAttachment = typeof devAttachment.$inferSelect;
+
+export type DevSessionShare = typeof devSessionShare.$inferSelect;
+
+export type DevMessageEmbedding = typeof devMessageEmbedding.$inferSelect;
+
+export type RateLimitHit = typeof rateLimitHit.$inferSelect;
+export type VoiceUsage = typeof voiceUsage.$inferSelect;
+
 // Relations
 export const todosRelations = relations(todos, ({ one, many }) => ({
   parent: one(todos, {
@@ -138,13 +393,48 @@ export const todosRelations = relations(todos, ({ one, many }) => ({
   }),
 }));
 
-export const devSessionRelations = relations(devSession, ({ many }) => ({
+export const devSessionRelations = relations(devSession, ({ one, many }) => ({
   messages: many(devMessage),
+  shares: many(devSessionShare),
+  persona: one(devPersona, {
+    fields: [devSession.persona_id],
+    references: [devPersona.id],
+  }),
 }));
 
-export const devMessageRelations = relations(devMessage, ({ one }) => ({
+export const devPersonaRelations = relations(devPersona, ({ many }) => ({
+  sessions: many(devSession),
+}));
+
+export const devSessionShareRelations = relations(
+  devSessionShare,
+  ({ one }) => ({
+    session: one(devSession, {
+      fields: [devSessionShare.session_id],
+      references: [devSession.id],
+    }),
+  })
+);
+
+export const devMessageRelations = relations(devMessage, ({ one, many }) => ({
   session: one(devSession, {
     fields: [devMessage.session_id],
     references: [devSession.id],
   }),
+  parent: one(devMessage, {
+    fields: [devMessage.parent_id],
+    references: [devMessage.id],
+    relationName: "parent-child",
+  }),
+  children: many(devMessage, {
+    relationName: "parent-child",
+  }),
+  attachments: many(devAttachment),
+}));
+
+export const devAttachmentRelations = relations(devAttachment, ({ one }) => ({
+  message: one(devMessage, {
+    fields: [devAttachment.message_id],
+    references: [devMessage.id],
+  }),
 }));
@@ -0,0 +1,179 @@
+import { devMemory, withUserContext, type Transaction } from "../db";
+import { eq, and, or, desc, sql } from "drizzle-orm";
+
+export const MAX_MEMORY_LENGTH = 1_000;
+// Oldest memories have to be forgotten before more can be remembered
+const MAX_MEMORIES_PER_USER = 500;
+// Memories sent with every chat request, most recently updated first
+const PROMPT_MEMORY_LIMIT = 30;
+
+type MemoryRow = typeof devMemory.$inferSelect;
+
+function normalizeContent(content: string): string {
+  const normalized = content.trim();
+  if (!normalized) {
+    throw new Error("Memory can't be empty");
+  }
+  if (normalized.length > MAX_MEMORY_LENGTH) {
+    throw new Error(
+      `Memory is too long, the limit is ${MAX_MEMORY_LENGTH} characters`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * List everything remembered about a user, most recently updated first
+ */
+export async function listMemories(userId: string): Promise<MemoryRow[]> {
+  return withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devMemory)
+      .where(eq(devMemory.user_id, userId))
+      .orderBy(desc(devMemory.updated_at));
+  });
+}
+
+/**
+ * Remember a fact about a user
+ * @throws if the content is empty or too long, or the user has too many memories
+ */
+export async function rememberMemory(
+  userId: string,
+  content: string
+): Promise<MemoryRow> {
+  const normalized = normalizeContent(content);
+
+  return withUserContext(userId, async (tx) => {
+    const [{ count }] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(devMemory)
+      .where(eq(devMemory.user_id, userId));
+
+    if (count >= MAX_MEMORIES_PER_USER) {
+      throw new Error(
+        `Memory is full (${MAX_MEMORIES_PER_USER} entries), forget something first`
+      );
+    }
+
+    const [memory] = await tx
+      .insert(devMemory)
+      .values({ user_id: userId, content: normalized })
+      .returning();
+
+    return memory;
+  });
+}
+
+/**
+ * Find memories mentioning any word of the query, best matches first
+ */
+export async function recallMemories(
+  userId: string,
+  query: string,
+  limit = 10
+): Promise<MemoryRow[]> {
+  // websearch_to_tsquery ANDs words by default; any word should match
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return (await listMemories(userId)).slice(0, limit);
+  }
+
+  const tsQuery = sql`websearch_to_tsquery('english', ${words.join(" or ")})`;
+  const document = sql`to_tsvector('english', ${devMemory.content})`;
+
+  return withUserContext(userId, async (tx) => {
+    return tx
+      .select()
+      .from(devMemory)
+      .where(
+        and(
+          eq(devMemory.user_id, userId),
+          or(
+            sql`${document} @@ ${tsQuery}`,
+            // Case-insensitive substring match; unlike ilike, % and _ in
+            // the query aren't wildcards
+            sql`position(lower(${query.trim()}::text) in lower(${
+              devMemory.content
+            })) > 0`
+          )
+        )
+      )
+      .orderBy(desc(sql`ts_rank(${document}, ${tsQuery})`))
+      .limit(limit);
+  });
+}
+
+/**
+ * Change the content of a memory
+ * @throws if the memory doesn't exist or belongs to another user
+ */
+export async function updateMemory(
+  userId: string,
+  memoryId: string,
+  content: string
+): Promise<MemoryRow> {
+  const normalized = normalizeContent(content);
+
+  return withUserContext(userId, async (tx) => {
+    const [memory] = await tx
+      .update(devMemory)
+      .set({ content: normalized, updated_at: new Date() })
+      .where(and(eq(devMemory.id, memoryId), eq(devMemory.user_id, userId)))
+      .returning();
+
+    if (!memory) {
+      throw new Error(`Memory with ID ${memoryId} not found`);
+    }
+
+    return memory;
+  });
+}
+
+/**
+ * Forget a memory
+ * @throws if the memory doesn't exist or belongs to another user
+ */
+export async function forgetMemory(
+  userId: string,
+  memoryId: string
+): Promise<{ success: true }> {
+  return withUserContext(userId, async (tx) => {
+    const [memory] = await tx
+      .delete(devMemory)
+      .where(and(eq(devMemory.id, memoryId), eq(devMemory.user_id, userId)))
+      .returning({ id: devMemory.id });
+
+    if (!memory) {
+      throw new Error(`Memory with ID ${memoryId} not found`);
+    }
+
+    return { success: true };
+  });
+}
+
+/**
+ * The system prompt section listing what is remembered about the user, or
+ * null if nothing is. IDs are included so the model can forget entries.
+ */
+export async function getMemoryPrompt(
+  tx: Transaction,
+  userId: string
+): Promise<string | null> {
+  const memories = await tx
+    .select()
+    .from(devMemory)
+    .where(eq(devMemory.user_id, userId))
+    .orderBy(desc(devMemory.updated_at))
+    .limit(PROMPT_MEMORY_LIMIT);
+
+  if (memories.length === 0) {
+    return null;
+  }
+
+  return [
+    "What you remember about the user from earlier conversations (use the recall tool to look up more):",
+    ...memories.map((memory) => `- [${memory.id}] ${memory.content}`),
+  ].join("\n");
+}
@@ -0,0 +1,208 @@
+import { withUserContext, rateLimitHit, voiceUsage, devUsage } from "../db";
+import { sql, eq, and, gte, lt } from "drizzle-orm";
+
+// Daily quotas per user, reset at midnight UTC. Set to 0 to disable.
+const DAILY_TOKEN_QUOTA = Number(process.env.DAILY_TOKEN_QUOTA ?? 500_000);
+const DAILY_VOICE_MINUTES_QUOTA = Number(
+  process.env.DAILY_VOICE_MINUTES_QUOTA ?? 60
+);
+
+export type DailyQuota = "tokens" | "voiceMinutes";
+
+/**
+ * Thrown when a user is over a rate limit or quota
+ * retryAfterMs tells the client how long until it resets
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterMs: number) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+interface RateLimitStore {
+  // Record a hit unless the user already has `limit` hits in the window
+  // Returns 0 if the hit was recorded, otherwise the ms until a slot frees up
+  hit(
+    userId: string,
+    key: string,
+    limit: number,
+    windowMs: number
+  ): Promise<number>;
+}
+
+const postgresStore: RateLimitStore = {
+  async hit(userId, key, limit, windowMs) {
+    return withUserContext(userId, async (tx) => {
+      // Serialize concurrent requests for the same user and procedure
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext(${`${userId}:${key}`}))`
+      );
+
+      const now = Date.now();
+      const windowStart = new Date(now - windowMs);
+
+      // Drop hits that have left the window
+      await tx
+        .delete(rateLimitHit)
+        .where(
+          and(
+            eq(rateLimitHit.user_id, userId),
+            eq(rateLimitHit.key, key),
+            lt(rateLimitHit.created_at, windowStart)
+          )
+        );
+
+      const hits = await tx
+        .select({ created_at: rateLimitHit.created_at })
+        .from(rateLimitHit)
+        .where(and(eq(rateLimitHit.user_id, userId), eq(rateLimitHit.key, key)))
+        .orderBy(rateLimitHit.created_at);
+
+      if (hits.length >= limit) {
+        // A slot frees up when the hit `limit` places from the end expires
+        const blocking = hits[hits.length - limit].created_at.getTime();
+        return Math.max(blocking + windowMs - now, 1);
+      }
+
+      await tx
+        .insert(rateLimitHit)
+        .values({ user_id: userId, key, created_at: new Date(now) });
+      return 0;
+    });
+  },
+};
+
+// Used when RATE_LIMIT_STORE=memory or Postgres is unavailable. Only limits
+// requests reaching this server instance.
+const memoryHits = new Map<string, number[]>();
+
+const memoryStore: RateLimitStore = {
+  async hit(userId, key, limit, windowMs) {
+    const now = Date.now();
+    const storeKey = `${userId}:${key}`;
+    const hits = (memoryHits.get(storeKey) ?? []).filter(
+      (time) => time > now - windowMs
+    );
+
+    if (hits.length >= limit) {
+      memoryHits.set(storeKey, hits);
+      return Math.max(hits[hits.length - limit] + windowMs - now, 1);
+    }
+
+    hits.push(now);
+    memoryHits.set(storeKey, hits);
+    return 0;
+  },
+};
+
+/**
+ * Count a request against a sliding-window limit per user and key
+ * @throws RateLimitError if the user is over the limit
+ */
+export async function enforceRateLimit(
+  userId: string,
+  key: string,
+  limit: number,
+  windowMs: number
+): Promise<void> {
+  let retryAfterMs: number;
+  if (process.env.RATE_LIMIT_STORE === "memory") {
+    retryAfterMs = await memoryStore.hit(userId, key, limit, windowMs);
+  } else {
+    try {
+      retryAfterMs = await postgresStore.hit(userId, key, limit, windowMs);
+    } catch (error) {
+      console.error("Rate limit store unavailable, using memory:", error);
+      retryAfterMs = await memoryStore.hit(userId, key, limit, windowMs);
+    }
+  }
+
+  if (retryAfterMs > 0) {
+    throw new RateLimitError(
+      `Too many requests, try again in ${Math.ceil(retryAfterMs / 1000)}s`,
+      retryAfterMs
+    );
+  }
+}
+
+/**
+ * Check a user's daily quota (LLM tokens or transcribed voice minutes)
+ * Quotas fail open if usage can't be read
+ * @throws RateLimitError if the quota for today is used up
+ */
+export async function enforceDailyQuota(
+  userId: string,
+  quota: DailyQuota
+): Promise<void> {
+  const limit =
+    quota === "tokens" ? DAILY_TOKEN_QUOTA : DAILY_VOICE_MINUTES_QUOTA;
+  if (!limit) return;
+
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  let used: number;
+  try {
+    used = await withUserContext(userId, async (tx) => {
+      if (quota === "tokens") {
+        const [row] = await tx
+          .select({
+            total:
+              sql<number>`coalesce(sum(${devUsage.prompt_tokens} + ${devUsage.completion_tokens}), 0)`.mapWith(
+                Number
+              ),
+          })
+          .from(devUsage)
+          .where(
+            and(
+              eq(devUsage.user_id, userId),
+              gte(devUsage.created_at, startOfDay)
+            )
+          );
+        return row.total;
+      }
+
+      const [row] = await tx
+        .select({
+          total: sql<number>`coalesce(sum(${voiceUsage.seconds}), 0)`.mapWith(
+            Number
+          ),
+        })
+        .from(voiceUsage)
+        .where(
+          and(
+            eq(voiceUsage.user_id, userId),
+            gte(voiceUsage.created_at, startOfDay)
+          )
+        );
+      return row.total / 60;
+    });
+  } catch (error) {
+    console.error("Error reading daily usage, skipping quota:", error);
+    return;
+  }
+
+  if (used >= limit) {
+    const retryAfterMs =
+      startOfDay.getTime() + 24 * 60 * 60 * 1000 - Date.now();
+    throw new RateLimitError(
+      quota === "tokens"
+        ? `Daily token quota of ${limit} used up`
+        : `Daily voice quota of ${limit} minutes used up`,
+      retryAfterMs
+    );
+  }
+}
+
+/**
+ * Record transcribed audio for the daily voice quota
+ */
+export async function recordVoiceUsage(
+  userId: string,
+  seconds: number
+): Promise<void> {
+  await withUserContext(userId, async (tx) => {
+    await tx.insert(voiceUsage).values({ user_id: userId, seconds });
+  });
+}
@@ -0,0 +1,175 @@
+import { devToolSettings, withUserContext } from "../db";
+import { eq } from "drizzle-orm";
+import { toolRegistry, type ToolDefinition } from "@/app/mcp/tools.registry";
+import { clerkClient } from "../clerk";
+
+// What decides which tools a user may call
+export interface ToolAccess {
+  // From the user's Clerk publicMetadata.role
+  roles: string[];
+  // Scopes of the MCP client's OAuth token; null for the user's own session
+  // in the chat sandbox, which isn't limited by scopes
+  scopes: string[] | null;
+  // Tools the user turned off in their tool settings
+  disabledTools: string[];
+}
+
+// How long a user's roles are reused before Clerk is asked again, so chat
+// turns and MCP requests don't each call the Clerk API
+const ROLE_CACHE_TTL_MS = 60_000;
+const roleCache = new Map<string, { roles: string[]; expiresAt: number }>();
+
+/**
+ * The roles of a user, from their Clerk publicMetadata
+ * Without the user there are no roles, so role-restricted tools are denied.
+ * Roles are cached for ROLE_CACHE_TTL_MS; failed lookups aren't cached.
+ */
+async function getUserRoles(userId: string): Promise<string[]> {
+  const cached = roleCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.roles;
+  }
+
+  try {
+    const user = await clerkClient.users.getUser(userId);
+    const role = (user.publicMetadata as { role?: unknown })?.role;
+    const roles = typeof role === "string" && role ? [role] : [];
+    roleCache.set(userId, { roles, expiresAt: Date.now() + ROLE_CACHE_TTL_MS });
+    return roles;
+  } catch (error) {
+    console.warn("Failed to fetch user for tool roles:", error);
+    return [];
+  }
+}
+
+async function getDisabledTools(userId: string): Promise<string[]> {
+  return withUserContext(userId, async (tx) => {
+    const [settings] = await tx
+      .select({ disabled_tools: devToolSettings.disabled_tools })
+      .from(devToolSettings)
+      .where(eq(devToolSettings.user_id, userId));
+
+    return settings?.disabled_tools ?? [];
+  });
+}
+
+/**
+ * Load what decides a user's tool access
+ * @param scopes - OAuth scopes of the MCP request; omit in the chat sandbox
+ */
+export async function getToolAccess(
+  userId: string,
+  scopes: string[] | null = null
+): Promise<ToolAccess> {
+  const [roles, disabledTools] = await Promise.all([
+    getUserRoles(userId),
+    getDisabledTools(userId),
+  ]);
+  return { roles, scopes, disabledTools };
+}
+
+/**
+ * Why a tool can't be called with the given access, or null if it can
+ * A tool needs one of its requiredRoles and all of its requiredScopes.
+ */
+export function getToolDenialReason(
+  tool: ToolDefinition,
+  access: ToolAccess
+): string | null {
+  if (
+    tool.requiredRoles?.length &&
+    !tool.requiredRoles.some((role) => access.roles.includes(role))
+  ) {
+    return `requires the ${tool.requiredRoles.join(" or ")} role`;
+  }
+
+  const missingScope =
+    access.scopes &&
+    tool.requiredScopes?.find((scope) => !access.scopes!.includes(scope));
+  if (missingScope) {
+    return `requires the ${missingScope} scope`;
+  }
+
+  if (access.disabledTools.includes(tool.name)) {
+    return "turned off in your tool settings";
+  }
+
+  return null;
+}
+
+/**
+ * Names of the tools a user may call, optionally limited to a selection
+ * (e.g. a persona's allowed tools)
+ */
+export function filterAllowedTools(
+  access: ToolAccess,
+  selection?: string[]
+): string[] {
+  return toolRegistry
+    .filter(
+      (tool) =>
+        (!selection || selection.includes(tool.name)) &&
+        !getToolDenialReason(tool, access)
+    )
+    .map((tool) => tool.name);
+}
+
+/**
+ * Every tool with whether the user turned it on and whether their roles allow
+ * it, for the tool settings page
+ */
+export async function listToolSettings(userId: string) {
+  // Scopes only apply to MCP clients, so they aren't shown here
+  const access = await getToolAccess(userId);
+
+  return toolRegistry.map((tool) => ({
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    enabled: !access.disabledTools.includes(tool.name),
+    // Why the user can't use the tool regardless of the setting
+    deniedReason: getToolDenialReason(tool, {
+      ...access,
+      disabledTools: [],
+    }),
+  }));
+}
+
+/**
+ * Turn a tool on or off for a user
+ * @throws if the tool doesn't exist
+ */
+export async function setToolEnabled(
+  userId: string,
+  toolName: string,
+  enabled: boolean
+): Promise<{ success: true }> {
+  if (!toolRegistry.some((tool) => tool.name === toolName)) {
+    throw new Error(`Tool ${toolName} not found`);
+  }
+
+  return withUserContext(userId, async (tx) => {
+    const [settings] = await tx
+      .select({ disabled_tools: devToolSettings.disabled_tools })
+      .from(devToolSettings)
+      .where(eq(devToolSettings.user_id, userId))
+      .for("update");
+
+    const disabledTools = (settings?.disabled_tools ?? []).filter(
+      (name) => name !== toolName
+    );
+    if (!enabled) {
+      disabledTools.push(toolName);
+    }
+
+    await tx
+      .insert(devToolSettings)
+      .values({ user_id: userId, disabled_tools: disabledTools })
+      .onConflictDoUpdate({
+        target: devToolSettings.user_id,
+        set: { disabled_tools: disabledTools, updated_at: new Date() },
+      });
+
+    return { success: true };
+  });
+}
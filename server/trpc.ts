@@ -1,12 +1,15 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import { auth } from "@clerk/nextjs/server";
-import { verifyToken, createClerkClient } from "@clerk/backend";
+import { verifyToken } from "@clerk/backend";
 import jwt from "jsonwebtoken";
-
-const clerkClient = createClerkClient({
-  secretKey: process.env.CLERK_SECRET_KEY,
-});
+import {
+  enforceRateLimit,
+  enforceDailyQuota,
+  RateLimitError,
+  type DailyQuota,
+} from "./services/rate-limit.service";
+import { clerkClient } from "./clerk";
 
 // Context type with optional userId and admin status
 export type Context = {
@@ -123,6 +126,19 @@ export const createContext = async (
 // Initialize tRPC with context
 const t = initTRPC.context<Context>().create({
   transformer: undefined,
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // Time until a rate limit or quota resets, for TOO_MANY_REQUESTS errors
+        retryAfterMs:
+          error.cause instanceof RateLimitError
+            ? error.cause.retryAfterMs
+            : undefined,
+      },
+    };
+  },
 });
 
 // Middleware to ensure user is authenticated
@@ -166,6 +182,54 @@ const isAdmin = t.middleware(({ ctx, next }) => {
   });
 });
 
+export interface RateLimitPolicy {
+  // Requests allowed per user and procedure within the sliding window
+  limit: number;
+  windowMs: number;
+  // Daily quota the user must have left
+  quota?: DailyQuota;
+}
+
+// Charge a call to a rate-limit policy, for procedures where only some calls
+// count (the rateLimit middleware charges every call)
+export async function enforceRateLimitPolicy(
+  userId: string,
+  path: string,
+  policy: RateLimitPolicy
+): Promise<void> {
+  try {
+    await enforceRateLimit(userId, path, policy.limit, policy.windowMs);
+    if (policy.quota) {
+      await enforceDailyQuota(userId, policy.quota);
+    }
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+// Middleware to limit how often a user may call a procedure
+// Use after isAuthenticated, e.g. userProcedure.use(rateLimit({ ... }))
+export const rateLimit = (policy: RateLimitPolicy) =>
+  t.middleware(async ({ ctx, path, next }) => {
+    if (!ctx.userId) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "Not authenticated",
+      });
+    }
+
+    await enforceRateLimitPolicy(ctx.userId, path, policy);
+
+    return next();
+  });
+
 // Base router and procedure helpers
 export const router = t.router;
 export const procedure = t.procedure;